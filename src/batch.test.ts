@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BATCH_CONCURRENCY, settle, settleConcurrently } from './batch.js';
+import { NotFoundError, TripAdvisorError, ValidationError } from './errors.js';
+
+describe('settleConcurrently', () => {
+  it('should keep the order of the IDs', async () => {
+    const delays: Record<string, number> = { a: 30, b: 0, c: 10 };
+
+    const results = await settleConcurrently(['a', 'b', 'c'], async id => {
+      await new Promise(resolve => setTimeout(resolve, delays[id]));
+      return id.toUpperCase();
+    });
+
+    expect(results).toEqual([
+      { locationId: 'a', status: 'fulfilled', value: 'A' },
+      { locationId: 'b', status: 'fulfilled', value: 'B' },
+      { locationId: 'c', status: 'fulfilled', value: 'C' },
+    ]);
+  });
+
+  it('should limit the number of tasks in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const ids = Array.from({ length: 10 }, (_, i) => String(i));
+
+    await settleConcurrently(
+      ids,
+      async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        inFlight--;
+      },
+      3
+    );
+
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('should default to a concurrency of 5', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const ids = Array.from({ length: 10 }, (_, i) => String(i));
+
+    await settleConcurrently(ids, async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      inFlight--;
+    });
+
+    expect(maxInFlight).toBe(DEFAULT_BATCH_CONCURRENCY);
+  });
+
+  it('should settle failed tasks without stopping the others', async () => {
+    const error = new NotFoundError('Not found');
+
+    const results = await settleConcurrently(
+      ['1', '2', '3'],
+      async id => {
+        if (id === '2') {
+          throw error;
+        }
+        return id;
+      },
+      1
+    );
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect(results[1]).toEqual({ locationId: '2', status: 'rejected', error });
+  });
+
+  it('should wrap errors of other types', async () => {
+    const cause = new Error('Middleware failed');
+
+    const [result] = await settleConcurrently(['1'], async () => {
+      throw cause;
+    });
+
+    expect(result.status).toBe('rejected');
+    if (result.status === 'rejected') {
+      expect(result.error).toBeInstanceOf(TripAdvisorError);
+      expect(result.error.message).toBe('Middleware failed');
+      expect(result.error.cause).toBe(cause);
+    }
+  });
+
+  it('should return an empty array for no IDs', async () => {
+    await expect(settleConcurrently([], async () => 'value')).resolves.toEqual([]);
+  });
+
+  it('should reject an invalid concurrency', async () => {
+    await expect(settleConcurrently(['1'], async () => 'value', 0)).rejects.toThrow(ValidationError);
+    await expect(settleConcurrently(['1'], async () => 'value', 1.5)).rejects.toThrow('Invalid concurrency: 1.5');
+  });
+});
+
+describe('settle', () => {
+  it('should return the value of a resolved promise', async () => {
+    await expect(settle(Promise.resolve(42))).resolves.toEqual({ status: 'fulfilled', value: 42 });
+  });
+
+  it('should return the error of a rejected promise', async () => {
+    const error = new ValidationError('Invalid response format');
+
+    await expect(settle(Promise.reject(error))).resolves.toEqual({ status: 'rejected', error });
+  });
+
+  it('should wrap thrown values that are not errors', async () => {
+    const result = await settle(Promise.reject('timeout'));
+
+    expect(result).toEqual({ status: 'rejected', error: expect.any(TripAdvisorError) });
+    expect(result.status === 'rejected' && result.error.message).toBe('timeout');
+  });
+});
@@ -0,0 +1,95 @@
+import { ConfigurationError, TripAdvisorError, ValidationError } from './errors.js';
+import type { ClientRequestOptions } from './http-client.js';
+
+/**
+ * Default number of requests a batch runs at the same time
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 5;
+
+/**
+ * Error of a failed batch item or profile section
+ *
+ * Errors thrown by other code, e.g. middleware, are wrapped in a `TripAdvisorError` with the
+ * original error as `cause`.
+ */
+export type BatchError = TripAdvisorError | ValidationError | ConfigurationError;
+
+/**
+ * Settled result of a request, holding either its value or its error
+ */
+export type SettledResult<T> = { status: 'fulfilled'; value: T } | { status: 'rejected'; error: BatchError };
+
+/**
+ * Settled result of a batch item
+ */
+export type BatchResult<T> = SettledResult<T> & { locationId: string };
+
+/**
+ * Batch request options
+ */
+export interface BatchOptions extends ClientRequestOptions {
+  /** Maximum number of requests in flight (default: 5) */
+  concurrency?: number;
+}
+
+/**
+ * Run a task for each location ID, with at most `concurrency` tasks in flight
+ *
+ * A failed task does not stop the others. Results are returned in the order of the IDs.
+ *
+ * @param locationIds - Location IDs
+ * @param task - Task run for each ID
+ * @param concurrency - Maximum number of tasks in flight
+ * @returns Settled result of each task
+ * @throws ValidationError if the concurrency is not a positive integer
+ */
+export async function settleConcurrently<T>(
+  locationIds: readonly string[],
+  task: (locationId: string) => Promise<T>,
+  concurrency: number = DEFAULT_BATCH_CONCURRENCY
+): Promise<BatchResult<T>[]> {
+  if (!Number.isInteger(concurrency) || concurrency <= 0) {
+    throw new ValidationError(`Invalid concurrency: ${concurrency}`);
+  }
+
+  const results = new Array<BatchResult<T>>(locationIds.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < locationIds.length) {
+      const index = next++;
+      const locationId = locationIds[index];
+      results[index] = { locationId, ...(await settle(task(locationId))) };
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, locationIds.length) }, worker));
+  return results;
+}
+
+/**
+ * Wait for a promise, capturing its error instead of rejecting
+ *
+ * @param promise - Promise to settle
+ * @returns Value or error of the promise
+ */
+export async function settle<T>(promise: Promise<T>): Promise<SettledResult<T>> {
+  try {
+    return { status: 'fulfilled', value: await promise };
+  } catch (error) {
+    return { status: 'rejected', error: toBatchError(error) };
+  }
+}
+
+/**
+ * Keep the client's error types, wrapping any other thrown value
+ */
+function toBatchError(error: unknown): BatchError {
+  if (error instanceof TripAdvisorError || error instanceof ValidationError || error instanceof ConfigurationError) {
+    return error;
+  }
+
+  const wrapped = new TripAdvisorError(error instanceof Error ? error.message : String(error));
+  wrapped.cause = error;
+  return wrapped;
+}
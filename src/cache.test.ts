@@ -0,0 +1,123 @@
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  buildCacheKey,
+  FileCacheStore,
+  getCacheEndpoint,
+  getCacheStatus,
+  MemoryCacheStore,
+  setCacheStatus,
+  type CacheEntry,
+} from './cache.js';
+
+const entry = (value: unknown): CacheEntry => ({ value, storedAt: 1000, expiresAt: 2000 });
+
+describe('cache helpers', () => {
+  it('should build keys independent of parameter order', () => {
+    expect(buildCacheKey('/location/1/details', { language: 'en', currency: 'USD' })).toBe(
+      buildCacheKey('/location/1/details', { currency: 'USD', language: 'en' })
+    );
+  });
+
+  it('should ignore undefined and null parameters in keys', () => {
+    expect(buildCacheKey('/location/search', { searchQuery: 'a', category: undefined, phone: null })).toBe(
+      buildCacheKey('/location/search', { searchQuery: 'a' })
+    );
+  });
+
+  it('should extract the endpoint name', () => {
+    expect(getCacheEndpoint('/location/123/details')).toBe('details');
+    expect(getCacheEndpoint('/location/nearby_search')).toBe('nearby_search');
+  });
+
+  it('should attach cache status to objects only', () => {
+    const result = setCacheStatus([], { fromCache: true, storedAt: 1 });
+
+    expect(getCacheStatus(result)).toEqual({ fromCache: true, storedAt: 1 });
+    expect(getCacheStatus({})).toBeUndefined();
+    expect(setCacheStatus('value', { fromCache: false })).toBe('value');
+    expect(getCacheStatus('value')).toBeUndefined();
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  it('should store, get and delete entries', async () => {
+    const store = new MemoryCacheStore();
+
+    await store.set('a', entry(1));
+    expect(await store.get('a')).toEqual(entry(1));
+
+    await store.delete('a');
+    expect(await store.get('a')).toBeUndefined();
+  });
+
+  it('should evict the least recently used entry', async () => {
+    const store = new MemoryCacheStore(2);
+
+    await store.set('a', entry(1));
+    await store.set('b', entry(2));
+    await store.get('a');
+    await store.set('c', entry(3));
+
+    expect(store.size).toBe(2);
+    expect(await store.get('a')).toBeDefined();
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBeDefined();
+  });
+
+  it('should clear all entries', async () => {
+    const store = new MemoryCacheStore();
+
+    await store.set('a', entry(1));
+    await store.clear();
+
+    expect(store.size).toBe(0);
+  });
+});
+
+describe('FileCacheStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'tripadvisor-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should persist entries across store instances', async () => {
+    await new FileCacheStore(directory).set('/location/1/details?[]', entry({ name: 'Test' }));
+
+    expect(await new FileCacheStore(directory).get('/location/1/details?[]')).toEqual(entry({ name: 'Test' }));
+  });
+
+  it('should return undefined for missing entries', async () => {
+    const store = new FileCacheStore(join(directory, 'missing'));
+
+    expect(await store.get('a')).toBeUndefined();
+    await expect(store.clear()).resolves.toBeUndefined();
+  });
+
+  it('should delete entries', async () => {
+    const store = new FileCacheStore(directory);
+
+    await store.set('a', entry(1));
+    await store.delete('a');
+
+    expect(await store.get('a')).toBeUndefined();
+  });
+
+  it('should only remove cache files when clearing', async () => {
+    const store = new FileCacheStore(directory);
+    await writeFile(join(directory, 'notes.txt'), 'keep');
+
+    await store.set('a', entry(1));
+    await store.set('b', entry(2));
+    await store.clear();
+
+    expect(await readdir(directory)).toEqual(['notes.txt']);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Cached response entry
+ */
+export interface CacheEntry {
+  /** Raw response body, before schema validation */
+  value: unknown;
+  /** Time at which the entry was stored, in milliseconds since epoch */
+  storedAt: number;
+  /** Time after which the entry is stale, in milliseconds since epoch */
+  expiresAt: number;
+}
+
+/**
+ * Cache storage backend
+ *
+ * Implement this interface to keep cached responses in an external store such as Redis.
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Endpoint names used for per-endpoint TTLs
+ */
+export type CacheEndpoint = 'search' | 'nearby_search' | 'details' | 'reviews' | 'photos';
+
+/**
+ * Response cache configuration
+ */
+export interface CacheConfig {
+  /** Cache store (default: in-memory LRU store) */
+  store?: CacheStore;
+  /** Default time to live in milliseconds */
+  ttl?: number;
+  /** Time to live in milliseconds for specific endpoints */
+  endpointTtl?: Partial<Record<CacheEndpoint, number>>;
+}
+
+/**
+ * Per-call cache behavior
+ *
+ * - `default`: read from and write to the cache
+ * - `bypass`: neither read from nor write to the cache
+ * - `refresh`: skip the cached value, then store the fresh response
+ */
+export type CacheMode = 'default' | 'bypass' | 'refresh';
+
+/**
+ * Cache status of a result
+ */
+export interface CacheStatus {
+  /** Whether the result was served from the cache */
+  fromCache: boolean;
+  /** Time at which the response was stored, for cached results */
+  storedAt?: number;
+}
+
+/**
+ * Default cache time to live (1 hour)
+ */
+export const DEFAULT_CACHE_TTL = 60 * 60 * 1000;
+
+const cacheStatuses = new WeakMap<object, CacheStatus>();
+
+/**
+ * Attach a cache status to a result object
+ *
+ * @returns The same result
+ */
+export function setCacheStatus<T>(result: T, status: CacheStatus | undefined): T {
+  if (status && typeof result === 'object' && result !== null) {
+    cacheStatuses.set(result, status);
+  }
+  return result;
+}
+
+/**
+ * Get the cache status of a result returned by the client
+ *
+ * @example
+ * ```typescript
+ * const details = await client.locationDetails('12345', { language: 'en', currency: 'USD' });
+ * console.log(getCacheStatus(details)?.fromCache);
+ * ```
+ */
+export function getCacheStatus(result: unknown): CacheStatus | undefined {
+  return typeof result === 'object' && result !== null ? cacheStatuses.get(result) : undefined;
+}
+
+/**
+ * Build a cache key from an endpoint and its validated payload
+ *
+ * Parameters are sorted so that the key does not depend on property order.
+ */
+export function buildCacheKey(endpoint: string, payload: Record<string, unknown>): string {
+  const params = Object.keys(payload)
+    .filter(key => payload[key] !== undefined && payload[key] !== null)
+    .sort()
+    .map(key => [key, payload[key]]);
+
+  return `${endpoint}?${JSON.stringify(params)}`;
+}
+
+/**
+ * Get the endpoint name used for per-endpoint TTLs (e.g. `/location/123/details` -> `details`)
+ */
+export function getCacheEndpoint(endpoint: string): string {
+  return endpoint.split('/').filter(Boolean).pop() ?? endpoint;
+}
+
+/**
+ * In-memory least-recently-used cache store
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+
+  /**
+   * @param maxEntries - Maximum number of entries kept before evicting the least recently used
+   */
+  constructor(maxEntries = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Move to the most recently used position
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of entries in the store
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Filesystem cache store
+ *
+ * Stores each entry as a JSON file named after the SHA-256 hash of its key.
+ */
+export class FileCacheStore implements CacheStore {
+  private directory: string;
+
+  /**
+   * @param directory - Directory in which cache files are written
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const { readFile } = await import('node:fs/promises');
+    try {
+      const content = JSON.parse(await readFile(await this.getPath(key), 'utf8')) as { key: string; entry: CacheEntry };
+      return content.key === key ? content.entry : undefined;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const { mkdir, writeFile } = await import('node:fs/promises');
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(await this.getPath(key), JSON.stringify({ key, entry }), 'utf8');
+  }
+
+  async delete(key: string): Promise<void> {
+    const { rm } = await import('node:fs/promises');
+    await rm(await this.getPath(key), { force: true });
+  }
+
+  /**
+   * Remove all cache files from the directory
+   */
+  async clear(): Promise<void> {
+    const { readdir, rm } = await import('node:fs/promises');
+    const { join } = await import('node:path');
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+    await Promise.all(
+      files
+        .filter(file => /^[0-9a-f]{64}\.json$/.test(file))
+        .map(file => rm(join(this.directory, file), { force: true }))
+    );
+  }
+
+  /**
+   * Get the file path of a key
+   */
+  private async getPath(key: string): Promise<string> {
+    const { join } = await import('node:path');
+    return join(this.directory, `${await hashKey(key)}.json`);
+  }
+}
+
+/**
+ * Hash a key into a hexadecimal SHA-256 digest, for use in file names
+ */
+export async function hashKey(key: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,128 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Cassette, redactApiKey, type CassetteConfig } from './cassette.js';
+import { TripAdvisorClient } from './client.js';
+import { CassetteError, NotFoundError } from './errors.js';
+import { FakeTripAdvisorServer } from './testing/fake-server.js';
+
+describe('Cassette', () => {
+  let directory: string;
+  let server: FakeTripAdvisorServer;
+
+  const createClient = (cassette: Omit<CassetteConfig, 'directory'>, fetchFn: typeof fetch = server.fetch) =>
+    new TripAdvisorClient({
+      apiKey: 'secret-key',
+      fetch: fetchFn,
+      retries: 0,
+      cassette: { directory, ...cassette },
+    });
+
+  const readRecordings = async () =>
+    Promise.all(
+      (await readdir(directory)).map(async file => JSON.parse(await readFile(join(directory, file), 'utf8')))
+    );
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'tripadvisor-cassette-'));
+    server = new FakeTripAdvisorServer();
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should record responses with the API key redacted', async () => {
+    await createClient({ mode: 'record' }).locationDetails('188151', { language: 'en' });
+
+    const files = await readdir(directory);
+    expect(files).toEqual([expect.stringMatching(/^location-188151-details-[0-9a-f]{16}\.json$/)]);
+
+    const content = await readFile(join(directory, files[0]), 'utf8');
+    expect(content).not.toContain('secret-key');
+    expect(JSON.parse(content)).toMatchObject({
+      key: 'GET /location/188151/details?[["currency","USD"],["language","en"]]',
+      request: { method: 'GET', url: expect.stringContaining('key=REDACTED') },
+      response: { status: 200, body: expect.objectContaining({ name: 'Eiffel Tower' }) },
+    });
+  });
+
+  it('should replay recorded responses without network access', async () => {
+    await createClient({ mode: 'record' }).locationReviews('188151', { limit: 2 });
+    const offlineFetch = vi.fn<typeof fetch>().mockRejectedValue(new TypeError('fetch failed'));
+
+    const reviews = await createClient({ mode: 'replay' }, offlineFetch).locationReviews('188151', { limit: 2 });
+
+    expect(reviews.map(review => review.id)).toEqual(['1001', '1002']);
+    expect(offlineFetch).not.toHaveBeenCalled();
+  });
+
+  it('should replay error responses', async () => {
+    await createClient({ mode: 'record' })
+      .locationDetails('1', {})
+      .catch(() => undefined);
+
+    await expect(createClient({ mode: 'replay' }, vi.fn()).locationDetails('1', {})).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+
+  it('should throw for unmatched requests by default', async () => {
+    const fetchFn = vi.fn<typeof fetch>();
+
+    await expect(createClient({ mode: 'replay' }, fetchFn).locationDetails('188151', {})).rejects.toThrow(
+      CassetteError
+    );
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+
+  it('should pass unmatched requests through without recording them', async () => {
+    const details = await createClient({ mode: 'replay', onUnmatched: 'passthrough' }).locationDetails('188151', {});
+
+    expect(details.name).toBe('Eiffel Tower');
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it('should record unmatched requests', async () => {
+    const client = createClient({ mode: 'replay', onUnmatched: 'record' });
+
+    await client.locationPhotos('188151', 1);
+    await client.locationPhotos('188151', 1);
+
+    expect(server.requests).toHaveLength(1);
+    expect(await readRecordings()).toEqual([
+      expect.objectContaining({ key: 'GET /location/188151/photos?[["language","en"],["limit",1]]' }),
+    ]);
+  });
+
+  it('should keep non-JSON bodies as text', async () => {
+    const fetchFn = vi.fn<typeof fetch>().mockResolvedValue(new Response('Bad gateway', { status: 502 }));
+    const cassette = new Cassette({ directory, mode: 'record' });
+
+    const recorder = await cassette.getFetch('GET', '/location/search', {}, fetchFn);
+    await expect((await recorder('https://api.example.com/location/search?key=abc')).text()).resolves.toBe(
+      'Bad gateway'
+    );
+    const player = await new Cassette({ directory, mode: 'replay' }).getFetch('GET', '/location/search', {}, fetchFn);
+    const response = await player('https://api.example.com/location/search');
+
+    expect(response.status).toBe(502);
+    await expect(response.text()).resolves.toBe('Bad gateway');
+    expect((await readRecordings())[0].response.body).toBe('Bad gateway');
+  });
+});
+
+describe('redactApiKey', () => {
+  it('should replace the key parameter', () => {
+    expect(redactApiKey('https://api.example.com/location/search?key=abc&searchQuery=paris')).toBe(
+      'https://api.example.com/location/search?key=REDACTED&searchQuery=paris'
+    );
+  });
+
+  it('should leave URLs without a key unchanged', () => {
+    expect(redactApiKey('https://api.example.com/location/search?searchQuery=paris')).toBe(
+      'https://api.example.com/location/search?searchQuery=paris'
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import { buildCacheKey, hashKey } from './cache.js';
+import { CassetteError } from './errors.js';
+
+/**
+ * Cassette mode
+ *
+ * - `record`: send every request and save its response
+ * - `replay`: answer requests from the saved responses, without network access
+ */
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * Behavior in replay mode for requests without a recorded response
+ *
+ * - `error`: throw a `CassetteError`
+ * - `passthrough`: send the request without saving its response
+ * - `record`: send the request and save its response
+ */
+export type UnmatchedRequestMode = 'error' | 'passthrough' | 'record';
+
+/**
+ * Record/replay configuration
+ */
+export interface CassetteConfig {
+  /** Directory in which recordings are saved, one JSON file per request */
+  directory: string;
+  mode: CassetteMode;
+  /** Behavior in replay mode for requests without a recording (default: `'error'`) */
+  onUnmatched?: UnmatchedRequestMode;
+}
+
+/**
+ * Request/response pair saved in a cassette file
+ */
+export interface CassetteRecording {
+  /** Method, endpoint and parameters of the request, without the API key */
+  key: string;
+  request: {
+    method: string;
+    /** Request URL, with the `key` parameter redacted */
+    url: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    /** Response body, parsed as JSON when possible */
+    body: unknown;
+  };
+}
+
+/**
+ * Value replacing the API key in recorded URLs
+ */
+export const REDACTED = 'REDACTED';
+
+/**
+ * Records HTTP responses to disk and replays them
+ *
+ * Recordings are keyed by method, endpoint and parameters, so that a replayed request matches
+ * its recording whatever the API key and parameter order.
+ */
+export class Cassette {
+  private config: CassetteConfig;
+
+  constructor(config: CassetteConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Get the fetch implementation to send a request with
+   *
+   * @param method - HTTP method
+   * @param endpoint - Endpoint path, e.g. `/location/123/details`
+   * @param payload - Request parameters, without the API key
+   * @param fetchFn - Fetch implementation used to reach the network
+   * @returns A fetch implementation replaying, recording or passing the request through
+   * @throws CassetteError in replay mode when the request has no recording and `onUnmatched` is `'error'`
+   */
+  async getFetch(
+    method: string,
+    endpoint: string,
+    payload: Record<string, unknown>,
+    fetchFn: typeof fetch
+  ): Promise<typeof fetch> {
+    const key = `${method} ${buildCacheKey(endpoint, payload)}`;
+    const path = await this.getPath(endpoint, key);
+
+    if (this.config.mode === 'record') {
+      return this.recorder(key, path, fetchFn);
+    }
+
+    const recording = await this.read(key, path);
+    if (recording) {
+      const { status, statusText, headers, body } = recording.response;
+      return async () =>
+        new Response(typeof body === 'string' ? body : JSON.stringify(body), { status, statusText, headers });
+    }
+
+    const onUnmatched = this.config.onUnmatched ?? 'error';
+    if (onUnmatched === 'error') {
+      throw new CassetteError(`No recorded response for ${key} in ${this.config.directory}`);
+    }
+    return onUnmatched === 'record' ? this.recorder(key, path, fetchFn) : fetchFn;
+  }
+
+  /**
+   * Wrap a fetch implementation to save the responses it receives
+   */
+  private recorder(key: string, path: string, fetchFn: typeof fetch): typeof fetch {
+    return async (input, init) => {
+      const response = await fetchFn(input, init);
+      const text = await response.text();
+      let body: unknown = text;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // Keep non-JSON bodies as text
+      }
+
+      await this.write(path, {
+        key,
+        request: {
+          method: init?.method ?? 'GET',
+          url: redactApiKey(String(input instanceof Request ? input.url : input)),
+        },
+        response: {
+          status: response.status,
+          statusText: response.statusText,
+          headers: Object.fromEntries(response.headers),
+          body,
+        },
+      });
+
+      return new Response(text, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+    };
+  }
+
+  /**
+   * Read the recording of a request
+   */
+  private async read(key: string, path: string): Promise<CassetteRecording | undefined> {
+    const { readFile } = await import('node:fs/promises');
+    try {
+      const recording = JSON.parse(await readFile(path, 'utf8')) as CassetteRecording;
+      return recording.key === key ? recording : undefined;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Save the recording of a request
+   */
+  private async write(path: string, recording: CassetteRecording): Promise<void> {
+    const { mkdir, writeFile } = await import('node:fs/promises');
+    await mkdir(this.config.directory, { recursive: true });
+    await writeFile(path, `${JSON.stringify(recording, null, 2)}\n`, 'utf8');
+  }
+
+  /**
+   * Get the file path of a recording, named after its endpoint and key hash (e.g. `location-123-details-0f3a….json`)
+   */
+  private async getPath(endpoint: string, key: string): Promise<string> {
+    const { join } = await import('node:path');
+    const name = endpoint.replace(/[^a-zA-Z0-9_]+/g, '-').replace(/^-|-$/g, '');
+    const hash = (await hashKey(key)).slice(0, 16);
+    return join(this.config.directory, `${name}-${hash}.json`);
+  }
+}
+
+/**
+ * Replace the `key` query parameter of a URL
+ */
+export function redactApiKey(url: string): string {
+  const parsed = new URL(url);
+  if (parsed.searchParams.has('key')) {
+    parsed.searchParams.set('key', REDACTED);
+  }
+  return parsed.toString();
+}
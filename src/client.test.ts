@@ -1,5 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { TripAdvisorClient } from './client.js';
+import { getCacheStatus, setCacheStatus } from './cache.js';
+import { getDefaultClient, TripAdvisorClient, tripAdvisorClient } from './client.js';
+import { loadConfigFromEnv } from './config.js';
 import { TripAdvisorError } from './errors.js';
 
 // Mock environment variables
@@ -29,12 +31,15 @@ vi.mock('./config.js', () => ({
       getRetryDelay: () => mockConfig.retryDelay,
     };
   }),
+  loadConfigFromEnv: vi.fn(() => ({ apiKey: 'env-key' })),
 }));
 
 // Mock the HTTP client
 vi.mock('./http-client.js', () => ({
   HttpClient: vi.fn().mockImplementation(() => ({
     request: vi.fn(),
+    getRateLimiterStats: vi.fn(() => ({ queueDepth: 2 })),
+    use: vi.fn(),
   })),
 }));
 
@@ -100,7 +105,8 @@ describe('TripAdvisorClient', () => {
         '/location/search',
         { searchQuery: 'Test Location', language: 'en' },
         expect.any(Object),
-        expect.any(Object)
+        expect.any(Object),
+        undefined
       );
       expect(result).toEqual(mockResponse.data);
     });
@@ -110,6 +116,66 @@ describe('TripAdvisorClient', () => {
 
       await expect(client.locationSearch({ searchQuery: 'Test', language: 'en' })).rejects.toThrow(TripAdvisorError);
     });
+
+    it('should pass request options and expose the cache status of the results', async () => {
+      mockHttpClient.request.mockResolvedValue(setCacheStatus({ data: [] }, { fromCache: true, storedAt: 1 }));
+
+      const result = await client.locationSearch({ searchQuery: 'Test', language: 'en' }, { cache: 'refresh' });
+
+      expect(mockHttpClient.request).toHaveBeenCalledWith(
+        '/location/search',
+        { searchQuery: 'Test', language: 'en' },
+        expect.any(Object),
+        expect.any(Object),
+        { cache: 'refresh' }
+      );
+      expect(getCacheStatus(result)).toEqual({ fromCache: true, storedAt: 1 });
+    });
+  });
+
+  describe('locationNearbySearch', () => {
+    it('should search nearby locations successfully', async () => {
+      const mockResponse = {
+        data: [
+          {
+            location_id: '456',
+            name: 'Nearby Location',
+            distance: '0.42',
+            bearing: 'north',
+            address_obj: {
+              city: 'Test City',
+              state: 'Test State',
+              country: 'Test Country',
+            },
+          },
+        ],
+      };
+
+      mockHttpClient.request.mockResolvedValue(mockResponse);
+
+      const result = await client.locationNearbySearch({
+        latLong: '40.7128,-74.0060',
+        category: 'restaurants',
+        language: 'en',
+      });
+
+      expect(mockHttpClient.request).toHaveBeenCalledWith(
+        '/location/nearby_search',
+        { latLong: '40.7128,-74.0060', category: 'restaurants', language: 'en' },
+        expect.any(Object),
+        expect.any(Object),
+        undefined
+      );
+      expect(result).toEqual(mockResponse.data);
+    });
+
+    it('should throw error for invalid response', async () => {
+      mockHttpClient.request.mockResolvedValue({});
+
+      await expect(client.locationNearbySearch({ latLong: '40.7128,-74.0060', language: 'en' })).rejects.toThrow(
+        TripAdvisorError
+      );
+    });
   });
 
   describe('locationDetails', () => {
@@ -139,12 +205,216 @@ describe('TripAdvisorClient', () => {
         '/location/123/details',
         { language: 'en', currency: 'USD' },
         expect.any(Object),
-        expect.any(Object)
+        expect.any(Object),
+        undefined
       );
       expect(result).toEqual(mockResponse);
     });
   });
 
+  describe('locationDetailsMany', () => {
+    it('should return settled results in input order', async () => {
+      const error = new TripAdvisorError('Not found', 404);
+      mockHttpClient.request.mockImplementation(async (endpoint: string) => {
+        if (endpoint === '/location/2/details') {
+          throw error;
+        }
+        return { location_id: endpoint.split('/')[2], name: 'Test Location' };
+      });
+
+      const results = await client.locationDetailsMany(['1', '2', '3'], { language: 'en' }, { concurrency: 2 });
+
+      expect(results).toEqual([
+        { locationId: '1', status: 'fulfilled', value: { location_id: '1', name: 'Test Location' } },
+        { locationId: '2', status: 'rejected', error },
+        { locationId: '3', status: 'fulfilled', value: { location_id: '3', name: 'Test Location' } },
+      ]);
+    });
+
+    it('should pass request options without the concurrency', async () => {
+      mockHttpClient.request.mockResolvedValue({ location_id: '1' });
+
+      await client.locationDetailsMany(['1'], { language: 'en' }, { concurrency: 1, retries: 2 });
+
+      expect(mockHttpClient.request).toHaveBeenCalledWith(
+        '/location/1/details',
+        { language: 'en' },
+        expect.any(Object),
+        expect.any(Object),
+        { retries: 2 }
+      );
+    });
+  });
+
+  describe('locationProfile', () => {
+    it('should fetch details, reviews and photos', async () => {
+      mockHttpClient.request.mockImplementation(async (endpoint: string) =>
+        endpoint.endsWith('/details') ? { location_id: '123', name: 'Test Location' } : { data: [{ id: 1 }] }
+      );
+
+      const profile = await client.locationProfile('123', {
+        language: 'fr',
+        currency: 'EUR',
+        reviews: { limit: 3 },
+        photos: { limit: 10, source: 'Expert' },
+      });
+
+      expect(profile).toEqual({
+        locationId: '123',
+        details: { status: 'fulfilled', value: { location_id: '123', name: 'Test Location' } },
+        reviews: { status: 'fulfilled', value: [{ id: 1 }] },
+        photos: { status: 'fulfilled', value: [{ id: 1 }] },
+      });
+      expect(mockHttpClient.request.mock.calls.map(call => [call[0], call[1]])).toEqual([
+        ['/location/123/details', { language: 'fr', currency: 'EUR' }],
+        ['/location/123/reviews', { limit: 3, language: 'fr' }],
+        ['/location/123/photos', { limit: 10, source: 'Expert', language: 'fr' }],
+      ]);
+    });
+
+    it('should report each failed section separately', async () => {
+      const error = new TripAdvisorError('Server error', 500);
+      mockHttpClient.request.mockImplementation(async (endpoint: string) => {
+        if (endpoint.endsWith('/reviews')) {
+          throw error;
+        }
+        return endpoint.endsWith('/details') ? { location_id: '123' } : { data: [] };
+      });
+
+      const profile = await client.locationProfile('123');
+
+      expect(profile.details).toEqual({ status: 'fulfilled', value: { location_id: '123' } });
+      expect(profile.reviews).toEqual({ status: 'rejected', error });
+      expect(profile.photos).toEqual({ status: 'fulfilled', value: [] });
+    });
+
+    it('should pass request options to all requests', async () => {
+      mockHttpClient.request.mockResolvedValue({ data: [] });
+      const options = { timeout: 5000 };
+
+      await client.locationProfile('123', {}, options);
+
+      expect(mockHttpClient.request).toHaveBeenCalledTimes(3);
+      mockHttpClient.request.mock.calls.forEach(call => expect(call[4]).toBe(options));
+    });
+  });
+
+  describe('request options', () => {
+    it('should pass per-call options to the HTTP client', async () => {
+      mockHttpClient.request.mockResolvedValue({ data: [] });
+      const options = {
+        signal: new AbortController().signal,
+        timeout: 5000,
+        retries: 1,
+        headers: { 'X-Request-Id': 'abc' },
+        deadline: Date.now() + 10000,
+      };
+
+      await client.locationReviews('123', { limit: 5 }, options);
+      await client.locationPhotos('123', 5, options);
+      await client.locationDetails('123', { language: 'en', currency: 'USD' }, 'hotels', options);
+
+      expect(mockHttpClient.request).toHaveBeenCalledTimes(3);
+      mockHttpClient.request.mock.calls.forEach(call => expect(call[4]).toBe(options));
+    });
+  });
+
+  describe('normalize mode', () => {
+    const parseWithSchema = (response: unknown) =>
+      mockHttpClient.request.mockImplementationOnce((_endpoint, _payload, _payloadSchema, responseSchema) =>
+        Promise.resolve(responseSchema.parse(response))
+      );
+
+    it('should return normalized reviews', async () => {
+      const normalizedClient = new TripAdvisorClient({ apiKey: 'test-key', normalize: true });
+      mockHttpClient = (normalizedClient as unknown as { httpClient: typeof mockHttpClient }).httpClient;
+      parseWithSchema({
+        data: [
+          {
+            id: 'review-1',
+            lang: 'en',
+            text: 'Great place!',
+            title: 'Amazing Experience',
+            published_date: '2023-01-01T10:00:00Z',
+            location_id: '123',
+            rating: '5',
+            helpful_votes: 10,
+            rating_image_url: 'http://example.com/rating.png',
+            url: 'http://example.com/review',
+            trip_type: 'Couples',
+            travel_date: '2022-12',
+            owner_response: {
+              id: 'response-1',
+              lang: 'en',
+              text: 'Thank you!',
+              title: 'Owner response',
+              published_date: '2023-01-02T10:00:00Z',
+              author: 'Manager',
+            },
+            user: { username: 'testuser', user_location: { id: '1' } },
+          },
+        ],
+      });
+
+      const [review] = await normalizedClient.locationReviews('123', {});
+
+      expect(review.rating).toBe(5);
+      expect(review.published_date).toEqual(new Date('2023-01-01T10:00:00Z'));
+      expect(review.owner_response?.published_date).toEqual(new Date('2023-01-02T10:00:00Z'));
+    });
+
+    it('should return normalized search results, nearby results and photos', async () => {
+      const normalizedClient = new TripAdvisorClient({ apiKey: 'test-key', normalize: true });
+      mockHttpClient = (normalizedClient as unknown as { httpClient: typeof mockHttpClient }).httpClient;
+      const location = {
+        location_id: '1',
+        name: 'Test',
+        address_obj: { city: 'City', state: 'State', country: 'Country' },
+      };
+      parseWithSchema({ data: [{ ...location, distance: '0.25' }, location] });
+      parseWithSchema({ data: [{ ...location, distance: '1.5', bearing: 'north' }] });
+      parseWithSchema({
+        data: [
+          {
+            id: 'photo-1',
+            is_blessed: false,
+            album: 'Hotel',
+            caption: 'Lobby',
+            published_date: '2023-03-04T05:06:07Z',
+            images: {},
+            source: { name: 'Traveler', localized_name: 'Traveler' },
+          },
+        ],
+      });
+
+      const [withDistance, withoutDistance] = await normalizedClient.locationSearch({ searchQuery: 'Test' });
+      const [nearby] = await normalizedClient.locationNearbySearch({ latLong: '1,2' });
+      const [photo] = await normalizedClient.locationPhotos('1', 1);
+
+      expect(withDistance.distance).toBe(0.25);
+      expect(withoutDistance.distance).toBeUndefined();
+      expect(nearby.distance).toBe(1.5);
+      expect(photo.published_date).toEqual(new Date('2023-03-04T05:06:07Z'));
+    });
+
+    it('should keep raw strings by default', async () => {
+      parseWithSchema({
+        data: [
+          {
+            location_id: '1',
+            name: 'Test',
+            address_obj: { city: 'City', state: 'State', country: 'Country' },
+            distance: '0.25',
+          },
+        ],
+      });
+
+      const [result] = await client.locationSearch({ searchQuery: 'Test' });
+
+      expect(result.distance).toBe('0.25');
+    });
+  });
+
   describe('locationReviews', () => {
     it('should get location reviews successfully', async () => {
       const mockResponse = {
@@ -181,7 +451,8 @@ describe('TripAdvisorClient', () => {
         '/location/123/reviews',
         { language: 'en', limit: 10 },
         expect.any(Object),
-        expect.any(Object)
+        expect.any(Object),
+        undefined
       );
       expect(result).toEqual(mockResponse.data);
     });
@@ -215,10 +486,163 @@ describe('TripAdvisorClient', () => {
         '/location/123/photos',
         { limit: 5 },
         expect.any(Object),
-        expect.any(Object)
+        expect.any(Object),
+        undefined
       );
       expect(result).toEqual(mockResponse.data);
     });
+
+    it('should pass full photo parameters', async () => {
+      mockHttpClient.request.mockResolvedValue({ data: [] });
+
+      const result = await client.locationPhotos('123', {
+        language: 'fr',
+        limit: 10,
+        offset: 20,
+        source: 'Expert,Traveler',
+      });
+
+      expect(mockHttpClient.request).toHaveBeenCalledWith(
+        '/location/123/photos',
+        { language: 'fr', limit: 10, offset: 20, source: 'Expert,Traveler' },
+        expect.any(Object),
+        expect.any(Object),
+        undefined
+      );
+      expect(result).toEqual([]);
+    });
+  });
+
+  describe('pagination', () => {
+    const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+      const items: T[] = [];
+      for await (const item of iterable) {
+        items.push(item);
+      }
+      return items;
+    };
+
+    it('should paginate reviews until a short page', async () => {
+      mockHttpClient.request
+        .mockResolvedValueOnce({ data: [{ id: '1' }, { id: '2' }] })
+        .mockResolvedValueOnce({ data: [{ id: '3' }] });
+
+      const reviews = await collect(client.paginateReviews('123', { pageSize: 2, language: 'en' }));
+
+      expect(reviews).toEqual([{ id: '1' }, { id: '2' }, { id: '3' }]);
+      expect(mockHttpClient.request).toHaveBeenNthCalledWith(
+        2,
+        '/location/123/reviews',
+        { language: 'en', limit: 2, offset: 2 },
+        expect.any(Object),
+        expect.any(Object),
+        undefined
+      );
+    });
+
+    it('should use num_reviews from details as the expected total', async () => {
+      mockHttpClient.request
+        .mockResolvedValueOnce({ location_id: '123', num_reviews: '2' })
+        .mockResolvedValueOnce({ data: [{ id: '1' }, { id: '2' }] });
+
+      const reviews = await collect(client.paginateReviews('123', { pageSize: 5, useDetailsTotal: true }));
+
+      expect(reviews).toHaveLength(2);
+      expect(mockHttpClient.request).toHaveBeenNthCalledWith(
+        1,
+        '/location/123/details',
+        { language: 'en', currency: 'USD' },
+        expect.any(Object),
+        expect.any(Object),
+        undefined
+      );
+      expect(mockHttpClient.request).toHaveBeenNthCalledWith(
+        2,
+        '/location/123/reviews',
+        { language: undefined, limit: 2, offset: 0 },
+        expect.any(Object),
+        expect.any(Object),
+        undefined
+      );
+    });
+
+    it('should paginate photos up to maxItems', async () => {
+      mockHttpClient.request.mockResolvedValue({ data: [{ id: 'a' }, { id: 'b' }, { id: 'c' }] });
+
+      const photos = await collect(client.paginatePhotos('123', { pageSize: 3, maxItems: 3 }));
+
+      expect(photos).toHaveLength(3);
+      expect(mockHttpClient.request).toHaveBeenCalledTimes(1);
+      expect(mockHttpClient.request).toHaveBeenCalledWith(
+        '/location/123/photos',
+        { language: undefined, limit: 3, offset: 0 },
+        expect.any(Object),
+        expect.any(Object),
+        undefined
+      );
+    });
+
+    it('should pass request options to every request', async () => {
+      const requestOptions = { cache: 'bypass' as const, signal: new AbortController().signal };
+      mockHttpClient.request
+        .mockResolvedValueOnce({ location_id: '123', photo_count: '1' })
+        .mockResolvedValueOnce({ data: [{ id: 'a' }] });
+
+      await collect(client.paginatePhotos('123', { useDetailsTotal: true }, requestOptions));
+
+      expect(mockHttpClient.request).toHaveBeenNthCalledWith(
+        1,
+        '/location/123/details',
+        expect.any(Object),
+        expect.any(Object),
+        expect.any(Object),
+        requestOptions
+      );
+      expect(mockHttpClient.request).toHaveBeenNthCalledWith(
+        2,
+        '/location/123/photos',
+        { language: undefined, limit: 1, offset: 0 },
+        expect.any(Object),
+        expect.any(Object),
+        requestOptions
+      );
+    });
+
+    it('should ignore a missing photo_count', async () => {
+      mockHttpClient.request.mockResolvedValueOnce({ location_id: '123' }).mockResolvedValueOnce({ data: [] });
+
+      const photos = await collect(client.paginatePhotos('123', { useDetailsTotal: true }));
+
+      expect(photos).toEqual([]);
+      expect(mockHttpClient.request).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('use', () => {
+    it('should add middleware to the HTTP client', () => {
+      const middleware = vi.fn();
+      const httpClient = mockHttpClient as unknown as { use: ReturnType<typeof vi.fn> };
+
+      expect(client.use(middleware)).toBe(client);
+      expect(httpClient.use).toHaveBeenCalledWith(middleware);
+    });
+  });
+
+  describe('getRateLimiterStats', () => {
+    it('should return rate limiter statistics from the HTTP client', () => {
+      expect(client.getRateLimiterStats()).toEqual({ queueDepth: 2 });
+    });
+  });
+
+  describe('default client', () => {
+    it('should create the default client lazily from the environment', () => {
+      expect(loadConfigFromEnv).not.toHaveBeenCalled();
+
+      expect(tripAdvisorClient.getConfig().apiKey).toBe('env-key');
+      expect(getDefaultClient()).toBe(getDefaultClient());
+      expect(getDefaultClient()).toBeInstanceOf(TripAdvisorClient);
+      expect(loadConfigFromEnv).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('configuration', () => {
@@ -1,7 +1,12 @@
-import { z } from 'zod';
-import { ConfigManager, type TripAdvisorConfig } from './config.js';
+import { settle, settleConcurrently, type BatchOptions, type BatchResult } from './batch.js';
+import { getCacheStatus, setCacheStatus } from './cache.js';
+import { ConfigManager, loadConfigFromEnv, type TripAdvisorConfig } from './config.js';
 import { TripAdvisorError } from './errors.js';
-import { HttpClient } from './http-client.js';
+import { HttpClient, type ClientRequestOptions } from './http-client.js';
+import type { Middleware } from './middleware.js';
+import { paginate, type PaginationOptions } from './pagination.js';
+import type { LocationProfile, LocationProfileOptions } from './profile.js';
+import type { RateLimiterStats } from './rate-limiter.js';
 
 // Import type definitions
 import type { TripAdvisorCategory } from './types/common.js';
@@ -12,16 +17,51 @@ import type {
   LocationDetailsPayload,
   LocationDetailsResponse,
   LocationDetailsRestaurantResponse,
+  NormalizedLocationDetails,
+  NormalizedLocationDetailsAttraction,
+  NormalizedLocationDetailsGeos,
+  NormalizedLocationDetailsHotel,
+  NormalizedLocationDetailsRestaurant,
 } from './types/details.js';
-import type { LocationPhotosData } from './types/photos.js';
-import type { LocationReviewsPayload, LocationReviewsResult } from './types/reviews.js';
-import type { LocationSearchPayload, LocationSearchResult } from './types/search.js';
+import type {
+  LocationNearbySearchPayload,
+  LocationNearbySearchResult,
+  NormalizedLocationNearbySearchResult,
+} from './types/nearby.js';
+import type { LocationPhotosData, LocationPhotosPayload, NormalizedLocationPhotosData } from './types/photos.js';
+import type {
+  LocationReviewsPayload,
+  LocationReviewsResult,
+  NormalizedLocationReviewsResult,
+} from './types/reviews.js';
+import type { LocationSearchPayload, LocationSearchResult, NormalizedLocationSearchResult } from './types/search.js';
 
 // Import schemas
-import { LocationDetailsPayloadSchema, LocationDetailsResponseSchema } from './types/details.js';
-import { LocationPhotosResponseSchema } from './types/photos.js';
-import { LocationReviewsPayloadSchema, LocationReviewsResponseSchema } from './types/reviews.js';
-import { LocationSearchPayloadSchema, LocationSearchResponseSchema } from './types/search.js';
+import {
+  getLocationDetailsResponseSchema,
+  getNormalizedLocationDetailsResponseSchema,
+  LocationDetailsPayloadSchema,
+} from './types/details.js';
+import {
+  LocationNearbySearchPayloadSchema,
+  LocationNearbySearchResponseSchema,
+  NormalizedLocationNearbySearchResponseSchema,
+} from './types/nearby.js';
+import {
+  LocationPhotosPayloadSchema,
+  LocationPhotosResponseSchema,
+  NormalizedLocationPhotosResponseSchema,
+} from './types/photos.js';
+import {
+  LocationReviewsPayloadSchema,
+  LocationReviewsResponseSchema,
+  NormalizedLocationReviewsResponseSchema,
+} from './types/reviews.js';
+import {
+  LocationSearchPayloadSchema,
+  LocationSearchResponseSchema,
+  NormalizedLocationSearchResponseSchema,
+} from './types/search.js';
 
 /**
  * Category response mapping type
@@ -33,14 +73,31 @@ type CategoryResponseMap = {
   geos: LocationDetailsGeosResponse;
 };
 
+/**
+ * Normalized category response mapping type
+ */
+type NormalizedCategoryResponseMap = {
+  hotels: NormalizedLocationDetailsHotel;
+  attractions: NormalizedLocationDetailsAttraction;
+  restaurants: NormalizedLocationDetailsRestaurant;
+  geos: NormalizedLocationDetailsGeos;
+};
+
+/**
+ * Result type for the client's normalize mode
+ */
+type Normalizable<TNormalize extends boolean, TRaw, TNormalized> = TNormalize extends true ? TNormalized : TRaw;
+
 /**
  * TripAdvisor API Client Class
  *
  * Provides complete TripAdvisor Content API access functionality, including:
  * - Location search
+ * - Nearby location search
  * - Location details retrieval
  * - Review retrieval
  * - Photo retrieval
+ * - Review and photo pagination
  *
  * @example
  * ```typescript
@@ -59,20 +116,25 @@ type CategoryResponseMap = {
  * const details = await client.locationDetails('12345', {
  *   language: 'en'
  * });
+ *
+ * // Get numbers, dates and coordinates instead of strings
+ * const normalizedClient = new TripAdvisorClient({ apiKey: 'your-api-key', normalize: true });
  * ```
  */
-export class TripAdvisorClient {
+export class TripAdvisorClient<TNormalize extends boolean = false> {
   private config: ConfigManager;
   private httpClient: HttpClient;
+  private normalize: boolean;
 
   /**
    * Create TripAdvisor client instance
    *
    * @param config - Client configuration
    */
-  constructor(config?: Partial<TripAdvisorConfig>) {
+  constructor(config?: Partial<TripAdvisorConfig> & { normalize?: TNormalize }) {
     this.config = new ConfigManager(config);
     this.httpClient = new HttpClient(this.config);
+    this.normalize = config?.normalize ?? false;
   }
 
   /**
@@ -81,6 +143,7 @@ export class TripAdvisorClient {
    * Returns up to 10 location results based on the search query.
    *
    * @param payload - Search parameters
+   * @param options - Request options
    * @returns Array of location search results
    *
    * @example
@@ -92,19 +155,68 @@ export class TripAdvisorClient {
    * });
    * ```
    */
-  async locationSearch(payload: LocationSearchPayload): Promise<LocationSearchResult[]> {
+  async locationSearch(
+    payload: LocationSearchPayload,
+    options?: ClientRequestOptions
+  ): Promise<Normalizable<TNormalize, LocationSearchResult, NormalizedLocationSearchResult>[]> {
     const result = await this.httpClient.request(
       '/location/search',
       payload,
       LocationSearchPayloadSchema,
-      LocationSearchResponseSchema
+      this.normalize ? NormalizedLocationSearchResponseSchema : LocationSearchResponseSchema,
+      options
     );
 
     if (!('data' in result)) {
       throw new TripAdvisorError('Invalid search response format');
     }
 
-    return result.data;
+    return setCacheStatus(
+      result.data as Normalizable<TNormalize, LocationSearchResult, NormalizedLocationSearchResult>[],
+      getCacheStatus(result)
+    );
+  }
+
+  /**
+   * Search for locations near a point
+   *
+   * Returns up to 10 locations found near the given latitude/longitude pair.
+   *
+   * @param payload - Nearby search parameters
+   * @param options - Request options
+   * @returns Array of nearby location results, including distance and bearing
+   *
+   * @example
+   * ```typescript
+   * const nearby = await client.locationNearbySearch({
+   *   latLong: '48.8584,2.2945',
+   *   category: 'restaurants',
+   *   radius: 1,
+   *   radiusUnit: 'km',
+   *   language: 'en'
+   * });
+   * ```
+   */
+  async locationNearbySearch(
+    payload: LocationNearbySearchPayload,
+    options?: ClientRequestOptions
+  ): Promise<Normalizable<TNormalize, LocationNearbySearchResult, NormalizedLocationNearbySearchResult>[]> {
+    const result = await this.httpClient.request(
+      '/location/nearby_search',
+      payload,
+      LocationNearbySearchPayloadSchema,
+      this.normalize ? NormalizedLocationNearbySearchResponseSchema : LocationNearbySearchResponseSchema,
+      options
+    );
+
+    if (!('data' in result)) {
+      throw new TripAdvisorError('Invalid nearby search response format');
+    }
+
+    return setCacheStatus(
+      result.data as Normalizable<TNormalize, LocationNearbySearchResult, NormalizedLocationNearbySearchResult>[],
+      getCacheStatus(result)
+    );
   }
 
   /**
@@ -112,9 +224,14 @@ export class TripAdvisorClient {
    *
    * Returns detailed information about a location, including name, address, rating, and TripAdvisor links.
    *
+   * When a category is given, the response is parsed with that category's schema and a
+   * `ValidationError` is thrown if the API returns a location of another category.
+   * Otherwise the schema is selected from the `category.name` of the response.
+   *
    * @param locationId - Location ID
    * @param payload - Request parameters
-   * @param category - Location category (optional, for type safety)
+   * @param category - Location category (optional)
+   * @param options - Request options
    * @returns Location details information
    *
    * @example
@@ -134,24 +251,120 @@ export class TripAdvisorClient {
   async locationDetails<T extends TripAdvisorCategory>(
     locationId: string,
     payload: LocationDetailsPayload,
-    category: T
-  ): Promise<CategoryResponseMap[T]>;
-  async locationDetails(locationId: string, payload: LocationDetailsPayload): Promise<LocationDetailsResponse>;
+    category: T,
+    options?: ClientRequestOptions
+  ): Promise<Normalizable<TNormalize, CategoryResponseMap[T], NormalizedCategoryResponseMap[T]>>;
+  async locationDetails(
+    locationId: string,
+    payload: LocationDetailsPayload,
+    category?: undefined,
+    options?: ClientRequestOptions
+  ): Promise<Normalizable<TNormalize, LocationDetailsResponse, NormalizedLocationDetails>>;
   async locationDetails(
     locationId: string,
     payload: LocationDetailsPayload,
-    _category?: TripAdvisorCategory
-  ): Promise<LocationDetailsResponse> {
+    category?: TripAdvisorCategory,
+    options?: ClientRequestOptions
+  ): Promise<LocationDetailsResponse | NormalizedLocationDetails> {
     const result = await this.httpClient.request(
       `/location/${locationId}/details`,
       payload,
       LocationDetailsPayloadSchema,
-      LocationDetailsResponseSchema
+      this.normalize
+        ? getNormalizedLocationDetailsResponseSchema(category)
+        : getLocationDetailsResponseSchema(category),
+      options
     );
 
     return result;
   }
 
+  /**
+   * Get details for many locations
+   *
+   * Runs `locationDetails` for each ID with at most `concurrency` requests in flight. Each request
+   * goes through the usual retry logic, and a failed request does not reject the batch: its result
+   * holds the error instead.
+   *
+   * @param locationIds - Location IDs
+   * @param payload - Request parameters, shared by all requests
+   * @param options - Batch and request options
+   * @returns Settled result of each location, in the order of the IDs
+   * @throws ValidationError if the concurrency is not a positive integer
+   *
+   * @example
+   * ```typescript
+   * const results = await client.locationDetailsMany(ids, { language: 'en' }, { concurrency: 10 });
+   *
+   * for (const result of results) {
+   *   if (result.status === 'fulfilled') {
+   *     console.log(result.value.name);
+   *   } else {
+   *     console.error(result.locationId, result.error.message);
+   *   }
+   * }
+   * ```
+   */
+  async locationDetailsMany(
+    locationIds: readonly string[],
+    payload: LocationDetailsPayload,
+    options: BatchOptions = {}
+  ): Promise<BatchResult<Normalizable<TNormalize, LocationDetailsResponse, NormalizedLocationDetails>>[]> {
+    const { concurrency, ...requestOptions } = options;
+
+    return settleConcurrently(
+      locationIds,
+      locationId => this.locationDetails(locationId, payload, undefined, requestOptions),
+      concurrency
+    );
+  }
+
+  /**
+   * Get the details, reviews and photos of a location
+   *
+   * Runs `locationDetails`, `locationReviews` and `locationPhotos` in parallel. A failed request
+   * does not reject the profile: its section holds the error instead.
+   *
+   * @param locationId - Location ID
+   * @param payload - Profile parameters
+   * @param options - Request options, applied to all three requests
+   * @returns Location profile, with the settled result of each section
+   *
+   * @example
+   * ```typescript
+   * const profile = await client.locationProfile('12345', {
+   *   language: 'en',
+   *   reviews: { limit: 5 },
+   *   photos: { limit: 10 }
+   * });
+   *
+   * if (profile.details.status === 'fulfilled') {
+   *   console.log(profile.details.value.name);
+   * }
+   * ```
+   */
+  async locationProfile(
+    locationId: string,
+    payload: LocationProfileOptions = {},
+    options?: ClientRequestOptions
+  ): Promise<
+    LocationProfile<
+      Normalizable<TNormalize, LocationDetailsResponse, NormalizedLocationDetails>,
+      Normalizable<TNormalize, LocationReviewsResult, NormalizedLocationReviewsResult>,
+      Normalizable<TNormalize, LocationPhotosData, NormalizedLocationPhotosData>
+    >
+  > {
+    const { language, currency, reviews, photos } = payload;
+
+    const [details, reviewsResult, photosResult] = await Promise.all([
+      settle(this.locationDetails(locationId, { language, currency }, undefined, options)),
+      settle(this.locationReviews(locationId, { ...reviews, language }, options)),
+      settle(this.locationPhotos(locationId, { ...photos, language }, options)),
+    ]);
+
+    return { locationId, details, reviews: reviewsResult, photos: photosResult };
+  }
+
   /**
    * Get location reviews
    *
@@ -159,6 +372,7 @@ export class TripAdvisorClient {
    *
    * @param locationId - Location ID
    * @param payload - Request parameters
+   * @param options - Request options
    * @returns Array of review results
    *
    * @example
@@ -170,19 +384,27 @@ export class TripAdvisorClient {
    * });
    * ```
    */
-  async locationReviews(locationId: string, payload: LocationReviewsPayload): Promise<LocationReviewsResult[]> {
+  async locationReviews(
+    locationId: string,
+    payload: LocationReviewsPayload,
+    options?: ClientRequestOptions
+  ): Promise<Normalizable<TNormalize, LocationReviewsResult, NormalizedLocationReviewsResult>[]> {
     const result = await this.httpClient.request(
       `/location/${locationId}/reviews`,
       payload,
       LocationReviewsPayloadSchema,
-      LocationReviewsResponseSchema
+      this.normalize ? NormalizedLocationReviewsResponseSchema : LocationReviewsResponseSchema,
+      options
     );
 
     if (!('data' in result)) {
       throw new TripAdvisorError('Invalid reviews response format');
     }
 
-    return result.data;
+    return setCacheStatus(
+      result.data as Normalizable<TNormalize, LocationReviewsResult, NormalizedLocationReviewsResult>[],
+      getCacheStatus(result)
+    );
   }
 
   /**
@@ -191,27 +413,173 @@ export class TripAdvisorClient {
    * Returns a list of photos for the specified location.
    *
    * @param locationId - Location ID
-   * @param limit - Photo count limit
+   * @param payload - Request parameters, or a photo count limit
+   * @param options - Request options
    * @returns Array of photo data
    *
    * @example
    * ```typescript
-   * const photos = await client.locationPhotos('12345', 20);
+   * const photos = await client.locationPhotos('12345', {
+   *   language: 'en',
+   *   limit: 20,
+   *   offset: 0,
+   *   source: 'Expert,Management'
+   * });
+   *
+   * // Shorthand for { limit: 20 }
+   * const firstPhotos = await client.locationPhotos('12345', 20);
    * ```
    */
-  async locationPhotos(locationId: string, limit: number): Promise<LocationPhotosData[]> {
+  async locationPhotos(
+    locationId: string,
+    payload: LocationPhotosPayload,
+    options?: ClientRequestOptions
+  ): Promise<Normalizable<TNormalize, LocationPhotosData, NormalizedLocationPhotosData>[]>;
+  async locationPhotos(
+    locationId: string,
+    limit: number,
+    options?: ClientRequestOptions
+  ): Promise<Normalizable<TNormalize, LocationPhotosData, NormalizedLocationPhotosData>[]>;
+  async locationPhotos(
+    locationId: string,
+    payloadOrLimit: LocationPhotosPayload | number,
+    options?: ClientRequestOptions
+  ): Promise<Normalizable<TNormalize, LocationPhotosData, NormalizedLocationPhotosData>[]> {
+    const payload = typeof payloadOrLimit === 'number' ? { limit: payloadOrLimit } : payloadOrLimit;
+
     const result = await this.httpClient.request(
       `/location/${locationId}/photos`,
-      { limit },
-      z.object({ limit: z.number() }),
-      LocationPhotosResponseSchema
+      payload,
+      LocationPhotosPayloadSchema,
+      this.normalize ? NormalizedLocationPhotosResponseSchema : LocationPhotosResponseSchema,
+      options
     );
 
     if (!('data' in result)) {
       throw new TripAdvisorError('Invalid photos response format');
     }
 
-    return result.data;
+    return setCacheStatus(
+      result.data as Normalizable<TNormalize, LocationPhotosData, NormalizedLocationPhotosData>[],
+      getCacheStatus(result)
+    );
+  }
+
+  /**
+   * Iterate over all reviews of a location
+   *
+   * Fetches reviews page by page with `locationReviews`, handling the offset bookkeeping.
+   *
+   * @param locationId - Location ID
+   * @param options - Pagination options
+   * @param requestOptions - Request options applied to every page request
+   * @returns Async iterable of reviews
+   *
+   * @example
+   * ```typescript
+   * for await (const review of client.paginateReviews('12345', { maxItems: 50 })) {
+   *   console.log(review.title);
+   * }
+   * ```
+   */
+  paginateReviews(
+    locationId: string,
+    options: PaginationOptions = {},
+    requestOptions?: ClientRequestOptions
+  ): AsyncIterable<Normalizable<TNormalize, LocationReviewsResult, NormalizedLocationReviewsResult>> {
+    const { pageSize, maxItems, language, useDetailsTotal } = options;
+
+    return paginate((offset, limit) => this.locationReviews(locationId, { language, limit, offset }, requestOptions), {
+      pageSize,
+      maxItems,
+      getTotal: useDetailsTotal
+        ? () => this.getDetailsCount(locationId, 'num_reviews', language, requestOptions)
+        : undefined,
+    });
+  }
+
+  /**
+   * Iterate over all photos of a location
+   *
+   * Fetches photos page by page with `locationPhotos`, handling the offset bookkeeping.
+   *
+   * @param locationId - Location ID
+   * @param options - Pagination options
+   * @param requestOptions - Request options applied to every page request
+   * @returns Async iterable of photos
+   *
+   * @example
+   * ```typescript
+   * for await (const photo of client.paginatePhotos('12345', { pageSize: 5 })) {
+   *   console.log(photo.caption);
+   * }
+   * ```
+   */
+  paginatePhotos(
+    locationId: string,
+    options: PaginationOptions = {},
+    requestOptions?: ClientRequestOptions
+  ): AsyncIterable<Normalizable<TNormalize, LocationPhotosData, NormalizedLocationPhotosData>> {
+    const { pageSize, maxItems, language, useDetailsTotal } = options;
+
+    return paginate((offset, limit) => this.locationPhotos(locationId, { language, limit, offset }, requestOptions), {
+      pageSize,
+      maxItems,
+      getTotal: useDetailsTotal
+        ? () => this.getDetailsCount(locationId, 'photo_count', language, requestOptions)
+        : undefined,
+    });
+  }
+
+  /**
+   * Read a count field from the location details
+   */
+  private async getDetailsCount(
+    locationId: string,
+    field: 'num_reviews' | 'photo_count',
+    language?: string,
+    options?: ClientRequestOptions
+  ): Promise<number | undefined> {
+    const details = await this.locationDetails(
+      locationId,
+      { language: language ?? this.config.getLanguage(), currency: this.config.getCurrency() },
+      undefined,
+      options
+    );
+    const count = Number(details[field]);
+
+    return details[field] === undefined || Number.isNaN(count) ? undefined : count;
+  }
+
+  /**
+   * Add a request middleware
+   *
+   * Middleware runs in the order it was added and wraps the URL build, the request, API error
+   * detection and, through its return value, the response validation.
+   *
+   * @param middleware - Middleware to add
+   * @returns The client, for chaining
+   *
+   * @example
+   * ```typescript
+   * client.use(async (context, next) => {
+   *   context.headers['X-Trace-Id'] = traceId;
+   *   return next();
+   * });
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.httpClient.use(middleware);
+    return this;
+  }
+
+  /**
+   * Get rate limiter statistics
+   *
+   * @returns Queue depth and wait times, or undefined when rate limiting is disabled
+   */
+  getRateLimiterStats(): RateLimiterStats | undefined {
+    return this.httpClient.getRateLimiterStats();
   }
 
   /**
@@ -233,31 +601,128 @@ export class TripAdvisorClient {
   }
 }
 
+let defaultClient: TripAdvisorClient | undefined;
+
+/**
+ * Get the default client instance
+ *
+ * The client is created on first use from the environment variables read by `loadConfigFromEnv`.
+ *
+ * @throws ConfigurationError if the environment configuration is invalid or TRIPADVISOR_API_KEY is unset
+ */
+export function getDefaultClient(): TripAdvisorClient {
+  defaultClient ??= new TripAdvisorClient(loadConfigFromEnv());
+  return defaultClient;
+}
+
 /**
  * Default client instance
  *
- * Uses TRIPADVISOR_API_KEY environment variable as API key
+ * Created lazily on first use, so importing the package never fails when TRIPADVISOR_API_KEY is unset.
  */
-export const tripAdvisorClient = new TripAdvisorClient();
+export const tripAdvisorClient: TripAdvisorClient = new Proxy({} as TripAdvisorClient, {
+  get(_target, property) {
+    const client = getDefaultClient();
+    const value = Reflect.get(client, property, client);
+    return typeof value === 'function' ? value.bind(client) : value;
+  },
+});
 
 // Export types
 export type {
+  Avatar,
+  Coordinates,
   LocationDetailsAttractionResponse,
   LocationDetailsGeosResponse,
   LocationDetailsHotelResponse,
   LocationDetailsPayload,
   LocationDetailsResponse,
   LocationDetailsRestaurantResponse,
+  LocationNearbySearchPayload,
+  LocationNearbySearchResult,
   LocationPhotosData,
+  LocationPhotosPayload,
   LocationReviewsPayload,
   LocationReviewsResult,
   LocationSearchPayload,
   LocationSearchResult,
+  NormalizedLocationDetails,
+  NormalizedLocationDetailsAttraction,
+  NormalizedLocationDetailsGeos,
+  NormalizedLocationDetailsHotel,
+  NormalizedLocationDetailsRestaurant,
+  NormalizedLocationNearbySearchResult,
+  NormalizedLocationPhotosData,
+  NormalizedLocationReviewsResult,
+  NormalizedLocationSearchResult,
+  NormalizedSubratings,
+  Subrating,
+  SubratingKey,
+  Subratings,
   TripAdvisorCategory,
+  TripAdvisorUser,
 } from './types/index.js';
 
+// Export subrating helpers
+export { getSubratingValues } from './types/index.js';
+
+// Export cache stores, helpers and types
+export { FileCacheStore, getCacheStatus, MemoryCacheStore } from './cache.js';
+export type { CacheConfig, CacheEndpoint, CacheEntry, CacheMode, CacheStatus, CacheStore } from './cache.js';
+
+// Export request option types
+export type { ClientRequestOptions } from './http-client.js';
+
+// Export middleware types
+export type { Middleware, MiddlewareContext } from './middleware.js';
+
+// Export pagination types
+export type { PaginationOptions } from './pagination.js';
+
+// Export batch and profile types
+export type { BatchError, BatchOptions, BatchResult, SettledResult } from './batch.js';
+export type { LocationProfile, LocationProfileOptions } from './profile.js';
+
+// Export record/replay types
+export type { CassetteConfig, CassetteMode, CassetteRecording, UnmatchedRequestMode } from './cassette.js';
+
+// Export schema drift detection
+export { DriftDetector, formatDriftReport } from './drift.js';
+export type { DriftFinding, DriftKind, DriftReport } from './drift.js';
+
+// Export validation types
+export type { ValidationMode, ValidationReport } from './validation.js';
+
+// Export opening hours helpers
+export { isOpenAt, nextOpening, openIntervalsForWeek } from './hours.js';
+export type { OpeningHoursLocation, OpeningPeriod, OpenInterval } from './hours.js';
+
+// Export locale helpers
+export { getLanguageFallbackChain } from './locale.js';
+export type { LanguageFallback } from './locale.js';
+
+// Export retry types
+export type { RetryPolicy } from './retry.js';
+
+// Export rate limiting types
+export type { RateLimitConfig, RateLimiterStats } from './rate-limiter.js';
+
 // Export error classes
-export { ConfigurationError, TripAdvisorError, ValidationError } from './errors.js';
+export {
+  AuthenticationError,
+  CassetteError,
+  ConfigurationError,
+  HttpError,
+  NetworkError,
+  NotFoundError,
+  PermissionError,
+  RateLimitError,
+  ServerError,
+  TripAdvisorError,
+  ValidationError,
+} from './errors.js';
+export type { HttpErrorOptions } from './errors.js';
 
-// Export configuration types
+// Export configuration loader and types
+export { loadConfigFromEnv } from './config.js';
 export type { TripAdvisorConfig } from './config.js';
@@ -1,6 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import type { TripAdvisorConfig } from './config.js';
-import { ConfigManager } from './config.js';
+import { ConfigManager, loadConfigFromEnv } from './config.js';
+import { DriftDetector } from './drift.js';
 import { ConfigurationError } from './errors.js';
 
 // Mock environment variables
@@ -152,6 +153,43 @@ describe('ConfigManager', () => {
       expect(config.getCurrency()).toBe('USD');
     });
 
+    it('should return library defaults when language and currency are unset', () => {
+      config.updateConfig({ language: undefined, currency: undefined });
+
+      expect(config.getLanguage()).toBe('en');
+      expect(config.getCurrency()).toBe('USD');
+    });
+
+    it('should return locale fallback configuration', () => {
+      expect(config.getLanguageFallback()).toBeUndefined();
+      expect(new ConfigManager({ apiKey: 'test-key', languageFallback: ['es'] }).getLanguageFallback()).toEqual(['es']);
+    });
+
+    it('should return validation settings', () => {
+      const onValidationIssue = vi.fn();
+
+      expect(config.getValidation()).toBe('strict');
+      expect(config.getOnValidationIssue()).toBeUndefined();
+
+      config.updateConfig({ validation: 'lenient', onValidationIssue });
+      expect(config.getValidation()).toBe('lenient');
+      expect(config.getOnValidationIssue()).toBe(onValidationIssue);
+    });
+
+    it('should return schema drift detector', () => {
+      const driftDetector = new DriftDetector();
+
+      expect(config.getDriftDetector()).toBeUndefined();
+      expect(new ConfigManager({ apiKey: 'test-key', driftDetector }).getDriftDetector()).toBe(driftDetector);
+    });
+
+    it('should return record/replay configuration', () => {
+      const cassette = { directory: 'cassettes', mode: 'replay' as const };
+
+      expect(config.getCassette()).toBeUndefined();
+      expect(new ConfigManager({ apiKey: 'test-key', cassette }).getCassette()).toBe(cassette);
+    });
+
     it('should return correct timeout', () => {
       expect(config.getTimeout()).toBe(30000);
     });
@@ -163,5 +201,83 @@ describe('ConfigManager', () => {
     it('should return correct retry delay', () => {
       expect(config.getRetryDelay()).toBe(1000);
     });
+
+    it('should return global fetch by default', () => {
+      expect(config.getFetch()).toBe(globalThis.fetch);
+    });
+
+    it('should return retry policy', () => {
+      expect(config.getRetryPolicy()).toBeUndefined();
+      expect(new ConfigManager({ apiKey: 'test-key', retryPolicy: { maxAttempts: 2 } }).getRetryPolicy()).toEqual({
+        maxAttempts: 2,
+      });
+    });
+
+    it('should return rate limit configuration', () => {
+      expect(config.getRateLimit()).toBeUndefined();
+      expect(new ConfigManager({ apiKey: 'test-key', rateLimit: { requestsPerSecond: 5 } }).getRateLimit()).toEqual({
+        requestsPerSecond: 5,
+      });
+    });
+
+    it('should return custom fetch when provided', () => {
+      const customFetch = vi.fn() as unknown as typeof fetch;
+      const customConfig = new ConfigManager({ apiKey: 'test-key', fetch: customFetch });
+      expect(customConfig.getFetch()).toBe(customFetch);
+    });
+  });
+
+  describe('loadConfigFromEnv', () => {
+    it('should read every supported variable', () => {
+      const config = loadConfigFromEnv({
+        TRIPADVISOR_API_KEY: 'env-key',
+        TRIPADVISOR_BASE_URL: 'https://staging.example.com/api/v1',
+        TRIPADVISOR_LANGUAGE: 'es',
+        TRIPADVISOR_CURRENCY: 'EUR',
+        TRIPADVISOR_TIMEOUT: '5000',
+        TRIPADVISOR_RETRIES: '0',
+        TRIPADVISOR_RETRY_DELAY: '250',
+        TRIPADVISOR_RATE_LIMIT_RPS: '2.5',
+        TRIPADVISOR_RATE_LIMIT_BURST: '5',
+        TRIPADVISOR_CACHE_TTL: '60000',
+      });
+
+      expect(config).toEqual({
+        apiKey: 'env-key',
+        baseUrl: 'https://staging.example.com/api/v1',
+        language: 'es',
+        currency: 'EUR',
+        timeout: 5000,
+        retries: 0,
+        retryDelay: 250,
+        rateLimit: { requestsPerSecond: 2.5, burst: 5 },
+        cache: { ttl: 60000 },
+      });
+    });
+
+    it('should omit unset and empty variables', () => {
+      expect(loadConfigFromEnv({ TRIPADVISOR_API_KEY: 'env-key', TRIPADVISOR_TIMEOUT: '' })).toEqual({
+        apiKey: 'env-key',
+      });
+    });
+
+    it('should read process.env by default', () => {
+      process.env.TRIPADVISOR_API_KEY = 'process-key';
+      expect(loadConfigFromEnv().apiKey).toBe('process-key');
+    });
+
+    it('should report every invalid variable', () => {
+      const load = () =>
+        loadConfigFromEnv({
+          TRIPADVISOR_BASE_URL: 'not a url',
+          TRIPADVISOR_TIMEOUT: 'abc',
+          TRIPADVISOR_RETRIES: '-1',
+        });
+
+      expect(load).toThrow(ConfigurationError);
+      expect(load).toThrow(/TRIPADVISOR_BASE_URL: Invalid url/);
+      expect(load).toThrow(/TRIPADVISOR_TIMEOUT: Expected number, received nan/);
+      expect(load).toThrow(/TRIPADVISOR_RETRIES: Number must be greater than or equal to 0/);
+    });
   });
 });
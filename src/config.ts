@@ -1,4 +1,12 @@
+import { z } from 'zod';
+import { MemoryCacheStore, type CacheConfig } from './cache.js';
+import type { CassetteConfig } from './cassette.js';
+import type { DriftDetector } from './drift.js';
 import { ConfigurationError } from './errors.js';
+import { DEFAULT_CURRENCY, DEFAULT_LANGUAGE, type LanguageFallback } from './locale.js';
+import type { RateLimitConfig } from './rate-limiter.js';
+import type { RetryPolicy } from './retry.js';
+import type { ValidationMode, ValidationReport } from './validation.js';
 
 /**
  * TripAdvisor API configuration interface
@@ -8,16 +16,36 @@ export interface TripAdvisorConfig {
   apiKey: string;
   /** API base URL */
   baseUrl?: string;
-  /** Default language */
+  /** Default language, used when a request does not specify one */
   language?: string;
-  /** Default currency */
+  /** Default currency, used when a request does not specify one */
   currency?: string;
+  /** Locale fallback chain, tried when the API rejects a language or returns no data for it (default: disabled) */
+  languageFallback?: LanguageFallback;
   /** Request timeout in milliseconds */
   timeout?: number;
   /** Number of retries */
   retries?: number;
   /** Retry delay in milliseconds */
   retryDelay?: number;
+  /** Retry policy, taking precedence over `retries` and `retryDelay` */
+  retryPolicy?: RetryPolicy;
+  /** Fetch implementation used to send requests (defaults to the global `fetch`) */
+  fetch?: typeof fetch;
+  /** Response cache configuration (caching is disabled when omitted) */
+  cache?: CacheConfig;
+  /** Client-side rate limit; requests above it are queued (rate limiting is disabled when omitted) */
+  rateLimit?: RateLimitConfig;
+  /** Return numbers, `Date`s and coordinates instead of raw strings; fixed when the client is created (default: false) */
+  normalize?: boolean;
+  /** Response validation mode (default: `'strict'`) */
+  validation?: ValidationMode;
+  /** Called with the issues found in a response in lenient validation mode */
+  onValidationIssue?: (report: ValidationReport) => void;
+  /** Schema drift detector inspecting every response received from the network (default: disabled) */
+  driftDetector?: DriftDetector;
+  /** Record HTTP traffic to disk, or replay it offline (default: disabled) */
+  cassette?: CassetteConfig;
 }
 
 /**
@@ -25,13 +53,72 @@ export interface TripAdvisorConfig {
  */
 const DEFAULT_CONFIG: Partial<TripAdvisorConfig> = {
   baseUrl: 'https://api.content.tripadvisor.com/api/v1',
-  language: 'en',
-  currency: 'USD',
+  language: DEFAULT_LANGUAGE,
+  currency: DEFAULT_CURRENCY,
   timeout: 30000,
   retries: 3,
   retryDelay: 1000,
 };
 
+/**
+ * Treat empty environment variables as unset
+ */
+const envValue = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(value => (value === '' ? undefined : value), schema.optional());
+
+/**
+ * Environment variables schema
+ */
+export const EnvConfigSchema = z.object({
+  TRIPADVISOR_API_KEY: envValue(z.string()),
+  TRIPADVISOR_BASE_URL: envValue(z.string().url()),
+  TRIPADVISOR_LANGUAGE: envValue(z.string()),
+  TRIPADVISOR_CURRENCY: envValue(z.string().length(3)),
+  TRIPADVISOR_TIMEOUT: envValue(z.coerce.number().int().positive()),
+  TRIPADVISOR_RETRIES: envValue(z.coerce.number().int().min(0)),
+  TRIPADVISOR_RETRY_DELAY: envValue(z.coerce.number().int().min(0)),
+  TRIPADVISOR_RATE_LIMIT_RPS: envValue(z.coerce.number().positive()),
+  TRIPADVISOR_RATE_LIMIT_BURST: envValue(z.coerce.number().int().min(1)),
+  TRIPADVISOR_CACHE_TTL: envValue(z.coerce.number().int().positive()),
+});
+
+/**
+ * Load configuration from environment variables
+ *
+ * Reads `TRIPADVISOR_API_KEY`, `TRIPADVISOR_BASE_URL`, `TRIPADVISOR_LANGUAGE`, `TRIPADVISOR_CURRENCY`,
+ * `TRIPADVISOR_TIMEOUT`, `TRIPADVISOR_RETRIES`, `TRIPADVISOR_RETRY_DELAY`, `TRIPADVISOR_RATE_LIMIT_RPS`,
+ * `TRIPADVISOR_RATE_LIMIT_BURST` and `TRIPADVISOR_CACHE_TTL` (which enables the in-memory cache).
+ * Unset and empty variables are omitted from the result.
+ *
+ * @param env - Environment variables (default: `process.env`)
+ * @throws ConfigurationError listing every invalid variable
+ */
+export function loadConfigFromEnv(env: Record<string, string | undefined> = process.env): Partial<TripAdvisorConfig> {
+  const result = EnvConfigSchema.safeParse(env);
+
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new ConfigurationError(`Invalid environment configuration:\n${issues.join('\n')}`);
+  }
+
+  const vars = result.data;
+  const config: Partial<TripAdvisorConfig> = {
+    apiKey: vars.TRIPADVISOR_API_KEY,
+    baseUrl: vars.TRIPADVISOR_BASE_URL,
+    language: vars.TRIPADVISOR_LANGUAGE,
+    currency: vars.TRIPADVISOR_CURRENCY,
+    timeout: vars.TRIPADVISOR_TIMEOUT,
+    retries: vars.TRIPADVISOR_RETRIES,
+    retryDelay: vars.TRIPADVISOR_RETRY_DELAY,
+    rateLimit: vars.TRIPADVISOR_RATE_LIMIT_RPS
+      ? { requestsPerSecond: vars.TRIPADVISOR_RATE_LIMIT_RPS, burst: vars.TRIPADVISOR_RATE_LIMIT_BURST }
+      : undefined,
+    cache: vars.TRIPADVISOR_CACHE_TTL ? { ttl: vars.TRIPADVISOR_CACHE_TTL } : undefined,
+  };
+
+  return Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined));
+}
+
 /**
  * Configuration manager
  */
@@ -58,6 +145,7 @@ export class ConfigManager {
       ...DEFAULT_CONFIG,
       ...config,
       apiKey,
+      cache: config?.cache && { ...config.cache, store: config.cache.store ?? new MemoryCacheStore() },
     } as TripAdvisorConfig;
   }
 
@@ -93,14 +181,21 @@ export class ConfigManager {
    * Get default language
    */
   getLanguage(): string {
-    return this.config.language!;
+    return this.config.language ?? DEFAULT_LANGUAGE;
   }
 
   /**
    * Get default currency
    */
   getCurrency(): string {
-    return this.config.currency!;
+    return this.config.currency ?? DEFAULT_CURRENCY;
+  }
+
+  /**
+   * Get locale fallback configuration
+   */
+  getLanguageFallback(): LanguageFallback | undefined {
+    return this.config.languageFallback;
   }
 
   /**
@@ -123,4 +218,60 @@ export class ConfigManager {
   getRetryDelay(): number {
     return this.config.retryDelay!;
   }
+
+  /**
+   * Get retry policy
+   */
+  getRetryPolicy(): RetryPolicy | undefined {
+    return this.config.retryPolicy;
+  }
+
+  /**
+   * Get fetch implementation
+   */
+  getFetch(): typeof fetch {
+    return this.config.fetch ?? globalThis.fetch;
+  }
+
+  /**
+   * Get cache configuration
+   */
+  getCache(): CacheConfig | undefined {
+    return this.config.cache;
+  }
+
+  /**
+   * Get response validation mode
+   */
+  getValidation(): ValidationMode {
+    return this.config.validation ?? 'strict';
+  }
+
+  /**
+   * Get validation issue callback
+   */
+  getOnValidationIssue(): ((report: ValidationReport) => void) | undefined {
+    return this.config.onValidationIssue;
+  }
+
+  /**
+   * Get schema drift detector
+   */
+  getDriftDetector(): DriftDetector | undefined {
+    return this.config.driftDetector;
+  }
+
+  /**
+   * Get record/replay configuration
+   */
+  getCassette(): CassetteConfig | undefined {
+    return this.config.cassette;
+  }
+
+  /**
+   * Get rate limit configuration
+   */
+  getRateLimit(): RateLimitConfig | undefined {
+    return this.config.rateLimit;
+  }
 }
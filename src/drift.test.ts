@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DriftDetector, formatDriftReport } from './drift.js';
+
+const location = {
+  location_id: '1',
+  name: 'Test',
+  address_obj: { city: 'City', state: 'State', country: 'Country' },
+};
+
+const hotel = {
+  location_id: '123',
+  name: 'Test Hotel',
+  web_url: 'https://www.tripadvisor.com/Test',
+  address_obj: { city: 'City', state: 'State', country: 'Country' },
+  ancestors: [],
+  latitude: '40.7128',
+  longitude: '-74.0060',
+  timezone: 'America/New_York',
+  category: { name: 'hotel', localized_name: 'Hotel' },
+  subcategory: [],
+  neighborhood_info: [],
+  awards: [],
+  amenities: [],
+  parent_brand: 'Group',
+  brand: 'Brand',
+  styles: [],
+  trip_types: [],
+};
+
+describe('DriftDetector', () => {
+  let detector: DriftDetector;
+
+  beforeEach(() => {
+    detector = new DriftDetector();
+  });
+
+  it('should report nothing for responses matching their schema', () => {
+    detector.inspect('/location/search', { data: [location] });
+    detector.inspect('/location/123/details', hotel);
+
+    expect(detector.getReport()).toEqual({ responses: { search: 1, 'details/hotels': 1 }, findings: [] });
+  });
+
+  it('should collect unknown keys across array items', () => {
+    detector.inspect('/location/search', {
+      data: [
+        { ...location, rating: '4.5' },
+        { ...location, rating: '4.0', address_obj: { ...location.address_obj, district: 'Center' } },
+      ],
+    });
+
+    expect(detector.getReport().findings).toEqual([
+      {
+        endpoint: 'search',
+        category: undefined,
+        kind: 'unknown_key',
+        path: 'data[].address_obj.district',
+        expected: undefined,
+        received: 'string',
+        occurrences: 1,
+        example: 'Center',
+      },
+      {
+        endpoint: 'search',
+        category: undefined,
+        kind: 'unknown_key',
+        path: 'data[].rating',
+        expected: undefined,
+        received: 'string',
+        occurrences: 2,
+        example: '4.5',
+      },
+    ]);
+  });
+
+  it('should collect type mismatches and missing fields per category', () => {
+    const { parent_brand: _parentBrand, ...independentHotel } = hotel;
+
+    detector.inspect('/location/123/details', { ...independentHotel, ancestors: {} });
+    detector.inspect('/location/456/details', independentHotel);
+
+    expect(detector.getReport().findings).toEqual([
+      expect.objectContaining({
+        category: 'hotels',
+        kind: 'type_mismatch',
+        path: 'ancestors',
+        expected: 'array',
+        received: 'object',
+        occurrences: 1,
+      }),
+      expect.objectContaining({
+        category: 'hotels',
+        kind: 'type_mismatch',
+        path: 'parent_brand',
+        expected: 'string',
+        received: 'undefined',
+        occurrences: 2,
+      }),
+    ]);
+  });
+
+  it('should compare details of unknown categories with the geos schema and ignore unknown endpoints', () => {
+    detector.inspect('/location/123/details', { ...hotel, category: { name: 'other', localized_name: 'Other' } });
+    detector.inspect('/location/123/unknown', { data: [] });
+
+    const report = detector.getReport();
+    expect(report.responses).toEqual({ 'details/geos': 1 });
+    expect(report.findings.map(finding => finding.path)).toContain('amenities');
+  });
+
+  it('should forget findings when cleared', () => {
+    detector.inspect('/location/search', { data: [{ ...location, rating: '4.5' }] });
+    detector.clear();
+
+    expect(detector.getReport()).toEqual({ responses: {}, findings: [] });
+  });
+});
+
+describe('formatDriftReport', () => {
+  it('should format findings grouped by endpoint and category', () => {
+    const detector = new DriftDetector();
+    const { parent_brand: _parentBrand, ...independentHotel } = hotel;
+    detector.inspect('/location/123/details', { ...independentHotel, sustainability: {} });
+    detector.inspect('/location/123/photos', { data: [] });
+
+    expect(formatDriftReport(detector.getReport())).toBe(
+      [
+        'details/hotels: 1 responses',
+        '  type mismatch parent_brand: expected string, received undefined (seen 1 times)',
+        '  unknown key   sustainability: object (seen 1 times)',
+      ].join('\n')
+    );
+  });
+
+  it('should say when there is no drift', () => {
+    expect(formatDriftReport(new DriftDetector().getReport())).toBe('No schema drift found');
+  });
+});
@@ -0,0 +1,242 @@
+import { z } from 'zod';
+import { getCacheEndpoint, type CacheEndpoint } from './cache.js';
+import type { TripAdvisorCategory } from './types/common.js';
+import { detectLocationDetailsCategory, LocationDetailsCategoryResponseSchemas } from './types/details.js';
+import { LocationNearbySearchResponseSchema } from './types/nearby.js';
+import { LocationPhotosResponseSchema } from './types/photos.js';
+import { LocationReviewsResponseSchema } from './types/reviews.js';
+import { LocationSearchResponseSchema } from './types/search.js';
+import { isPlainObject, selectUnionOption } from './validation.js';
+
+/**
+ * Kind of difference between a response and its schema
+ *
+ * - `unknown_key`: the response has a key the schema does not declare
+ * - `type_mismatch`: a value does not have the declared type, including missing required fields
+ */
+export type DriftKind = 'unknown_key' | 'type_mismatch';
+
+/**
+ * Difference between the responses of an endpoint and its schema
+ */
+export interface DriftFinding {
+  endpoint: CacheEndpoint;
+  /** Location category, for location details */
+  category?: TripAdvisorCategory;
+  kind: DriftKind;
+  /** Path of the value, with `[]` standing for any array item, e.g. `data[].user.avatar` */
+  path: string;
+  /** Declared type, for type mismatches */
+  expected?: string;
+  /** Type of the received value */
+  received: string;
+  /** Number of times the difference was seen */
+  occurrences: number;
+  /** First value seen */
+  example: unknown;
+}
+
+/**
+ * Schema drift report
+ */
+export interface DriftReport {
+  /** Number of responses inspected per endpoint, and per category for location details (e.g. `details/hotels`) */
+  responses: Record<string, number>;
+  /** Differences, sorted by endpoint, category and path */
+  findings: DriftFinding[];
+}
+
+/**
+ * Raw response schema of each endpoint, except location details which depend on the category
+ */
+const RESPONSE_SCHEMAS: Record<Exclude<CacheEndpoint, 'details'>, z.ZodTypeAny> = {
+  search: LocationSearchResponseSchema,
+  nearby_search: LocationNearbySearchResponseSchema,
+  reviews: LocationReviewsResponseSchema,
+  photos: LocationPhotosResponseSchema,
+};
+
+/**
+ * Detects differences between raw API responses and the schemas in `src/types/`
+ *
+ * Zod strips unknown keys, which hides fields the API starts returning. Pass a detector as the
+ * `driftDetector` option to inspect every response received from the network, then read the
+ * report after a crawl to decide which schema updates to make.
+ *
+ * @example
+ * ```typescript
+ * const driftDetector = new DriftDetector();
+ * const client = new TripAdvisorClient({ apiKey: 'your-api-key', driftDetector });
+ *
+ * // ... crawl ...
+ *
+ * console.log(formatDriftReport(driftDetector.getReport()));
+ * ```
+ */
+export class DriftDetector {
+  private responses: Record<string, number> = {};
+  private findings = new Map<string, DriftFinding>();
+
+  /**
+   * Compare a raw response with the schema of its endpoint
+   *
+   * Responses of unknown endpoints are ignored.
+   *
+   * @param endpoint - Endpoint path, e.g. `/location/123/details`
+   * @param data - Raw response body
+   */
+  inspect(endpoint: string, data: unknown): void {
+    const name = getCacheEndpoint(endpoint);
+    let schema: z.ZodTypeAny | undefined;
+    let category: TripAdvisorCategory | undefined;
+
+    if (name === 'details') {
+      category = detectLocationDetailsCategory(data) ?? 'geos';
+      schema = LocationDetailsCategoryResponseSchemas[category];
+    } else {
+      schema = RESPONSE_SCHEMAS[name as keyof typeof RESPONSE_SCHEMAS];
+    }
+    if (!schema) {
+      return;
+    }
+
+    const group = getGroup(name, category);
+    this.responses[group] = (this.responses[group] ?? 0) + 1;
+    this.compare(schema, data, '', (kind, path, value, expected) => {
+      const received = getValueType(value);
+      const key = [name, category, kind, path, received].join('|');
+      const finding = this.findings.get(key);
+
+      if (finding) {
+        finding.occurrences++;
+      } else {
+        this.findings.set(key, {
+          endpoint: name as CacheEndpoint,
+          category,
+          kind,
+          path,
+          expected,
+          received,
+          occurrences: 1,
+          example: value,
+        });
+      }
+    });
+  }
+
+  /**
+   * Get the differences found so far
+   */
+  getReport(): DriftReport {
+    const findings = [...this.findings.values()].sort((a, b) =>
+      [a.endpoint, a.category ?? '', a.path].join('|').localeCompare([b.endpoint, b.category ?? '', b.path].join('|'))
+    );
+
+    return { responses: { ...this.responses }, findings: findings.map(finding => ({ ...finding })) };
+  }
+
+  /**
+   * Forget all inspected responses
+   */
+  clear(): void {
+    this.responses = {};
+    this.findings.clear();
+  }
+
+  /**
+   * Walk a value along its schema, reporting unknown keys and type mismatches
+   */
+  private compare(
+    schema: z.ZodTypeAny,
+    value: unknown,
+    path: string,
+    report: (kind: DriftKind, path: string, value: unknown, expected?: string) => void
+  ): void {
+    if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+      if (value !== undefined && value !== null) {
+        this.compare(schema.unwrap(), value, path, report);
+      }
+    } else if (schema instanceof z.ZodDefault) {
+      this.compare(schema.removeDefault(), value ?? schema._def.defaultValue(), path, report);
+    } else if (schema instanceof z.ZodEffects) {
+      this.compare(schema.innerType(), value, path, report);
+    } else if (schema instanceof z.ZodUnion) {
+      this.compare(selectUnionOption(schema.options, value), value, path, report);
+    } else if (schema instanceof z.ZodObject && isPlainObject(value)) {
+      const shape: z.ZodRawShape = schema.shape;
+      for (const key of Object.keys(value).filter(key => !(key in shape))) {
+        report('unknown_key', joinPath(path, key), value[key]);
+      }
+      for (const [key, fieldSchema] of Object.entries(shape)) {
+        this.compare(fieldSchema, value[key], joinPath(path, key), report);
+      }
+    } else if (schema instanceof z.ZodArray && Array.isArray(value)) {
+      value.forEach(item => this.compare(schema.element, item, `${path}[]`, report));
+    } else if (!(schema instanceof z.ZodAny || schema instanceof z.ZodUnknown) && !schema.safeParse(value).success) {
+      report('type_mismatch', path, value, getSchemaType(schema));
+    }
+  }
+}
+
+/**
+ * Format a drift report as plain text, one line per finding
+ *
+ * @example
+ * ```text
+ * details/hotels: 120 responses
+ *   unknown key   sustainability: object (seen 98 times)
+ *   type mismatch parent_brand: expected string, received undefined (seen 22 times)
+ * ```
+ */
+export function formatDriftReport(report: DriftReport): string {
+  const lines: string[] = [];
+  let group: string | undefined;
+
+  for (const finding of report.findings) {
+    const findingGroup = getGroup(finding.endpoint, finding.category);
+    if (findingGroup !== group) {
+      group = findingGroup;
+      lines.push(`${group}: ${report.responses[group] ?? 0} responses`);
+    }
+
+    const description =
+      finding.kind === 'unknown_key'
+        ? `unknown key   ${finding.path}: ${finding.received}`
+        : `type mismatch ${finding.path}: expected ${finding.expected}, received ${finding.received}`;
+    lines.push(`  ${description} (seen ${finding.occurrences} times)`);
+  }
+
+  return lines.length > 0 ? lines.join('\n') : 'No schema drift found';
+}
+
+/**
+ * Get the report group of an endpoint and category, e.g. `details/hotels`
+ */
+function getGroup(endpoint: string, category?: TripAdvisorCategory): string {
+  return category ? `${endpoint}/${category}` : endpoint;
+}
+
+/**
+ * Append a key to a dotted path
+ */
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Describe the type a leaf schema expects, e.g. `string` for `z.string()`
+ */
+function getSchemaType(schema: z.ZodTypeAny): string {
+  const typeName: string = schema._def.typeName ?? 'unknown';
+  return typeName.replace(/^Zod/, '').toLowerCase();
+}
+
+/**
+ * Describe the type of a received value
+ */
+function getValueType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
@@ -1,5 +1,17 @@
 import { describe, expect, it } from 'vitest';
-import { ConfigurationError, TripAdvisorError, ValidationError } from './errors.js';
+import {
+  AuthenticationError,
+  CassetteError,
+  ConfigurationError,
+  HttpError,
+  NetworkError,
+  NotFoundError,
+  PermissionError,
+  RateLimitError,
+  ServerError,
+  TripAdvisorError,
+  ValidationError,
+} from './errors.js';
 
 describe('TripAdvisorError', () => {
   describe('constructor', () => {
@@ -51,6 +63,24 @@ describe('TripAdvisorError', () => {
       expect(error.isApiError).toBe(true);
     });
 
+    it('should map HTTP status codes onto HTTP error classes', () => {
+      const response = { error: { message: 'Invalid key', code: 401, type: 'UNAUTHORIZED' } };
+
+      const error = TripAdvisorError.fromApiResponse(response);
+
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect((error as HttpError).status).toBe(401);
+      expect((error as HttpError).body).toBe(response);
+      expect(TripAdvisorError.fromApiResponse({ Message: 'Quota exceeded', code: 429 })).toBeInstanceOf(RateLimitError);
+    });
+
+    it('should keep non-HTTP codes as generic API errors', () => {
+      const error = TripAdvisorError.fromApiResponse({ error: { message: 'Invalid parameter', code: 105 } });
+
+      expect(error).not.toBeInstanceOf(HttpError);
+      expect(error.code).toBe(105);
+    });
+
     it('should create error from response with Message property', () => {
       const response = {
         Message: 'Alternative error message',
@@ -157,6 +187,63 @@ describe('TripAdvisorError', () => {
   });
 });
 
+describe('HttpError', () => {
+  it('should store status, headers and body', () => {
+    const headers = new Headers({ 'retry-after': '5' });
+    const error = new HttpError('HTTP 400: Bad Request', 400, {
+      headers,
+      body: { detail: 'bad' },
+      type: 'BAD_REQUEST',
+    });
+
+    expect(error).toBeInstanceOf(TripAdvisorError);
+    expect(error.name).toBe('HttpError');
+    expect(error.status).toBe(400);
+    expect(error.code).toBe(400);
+    expect(error.type).toBe('BAD_REQUEST');
+    expect(error.headers).toBe(headers);
+    expect(error.body).toEqual({ detail: 'bad' });
+    expect(error.isApiError).toBe(false);
+  });
+
+  it.each([
+    [401, AuthenticationError, 'AuthenticationError'],
+    [403, PermissionError, 'PermissionError'],
+    [404, NotFoundError, 'NotFoundError'],
+    [429, RateLimitError, 'RateLimitError'],
+    [500, ServerError, 'ServerError'],
+    [503, ServerError, 'ServerError'],
+    [400, HttpError, 'HttpError'],
+  ])('should create the error class for status %i', (status, errorClass, name) => {
+    const error = HttpError.fromStatus(status, 'message');
+
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error.name).toBe(name);
+    expect(error.status).toBe(status);
+  });
+
+  it('should use default statuses in subclasses', () => {
+    expect(new AuthenticationError('message').status).toBe(401);
+    expect(new PermissionError('message').status).toBe(403);
+    expect(new NotFoundError('message').status).toBe(404);
+    expect(new RateLimitError('message').status).toBe(429);
+    expect(new ServerError('message').status).toBe(500);
+  });
+});
+
+describe('NetworkError', () => {
+  it('should keep the original error as cause', () => {
+    const cause = new TypeError('fetch failed');
+    const error = new NetworkError('fetch failed', cause);
+
+    expect(error).toBeInstanceOf(TripAdvisorError);
+    expect(error.name).toBe('NetworkError');
+    expect(error.cause).toBe(cause);
+    expect(error.isTimeout).toBe(false);
+    expect(new NetworkError('aborted', undefined, true).isTimeout).toBe(true);
+  });
+});
+
 describe('ConfigurationError', () => {
   it('should create configuration error with message', () => {
     const error = new ConfigurationError('Configuration is invalid');
@@ -188,3 +275,13 @@ describe('ValidationError', () => {
     expect(error.name).toBe('ValidationError');
   });
 });
+
+describe('CassetteError', () => {
+  it('should create cassette error with message', () => {
+    const error = new CassetteError('No recorded response');
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe('No recorded response');
+    expect(error.name).toBe('CassetteError');
+  });
+});
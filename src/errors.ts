@@ -21,24 +21,34 @@ export class TripAdvisorError extends Error {
     const responseObj = response as Record<string, unknown>;
     if (responseObj?.error && typeof responseObj.error === 'object' && responseObj.error !== null) {
       const error = responseObj.error as Record<string, unknown>;
-      return new TripAdvisorError(
+      return TripAdvisorError.create(
         (error.message as string) || 'Unknown API error',
         error.code as number,
         error.type as string,
-        true
+        response
       );
     }
     if (responseObj?.Message) {
-      return new TripAdvisorError(
+      return TripAdvisorError.create(
         responseObj.Message as string,
         responseObj.code as number,
         responseObj.type as string,
-        true
+        response
       );
     }
     return new TripAdvisorError('Unknown API error', undefined, undefined, true);
   }
 
+  /**
+   * Create an API error, using the HTTP error class matching the code when it is an HTTP status
+   */
+  private static create(message: string, code: number | undefined, type: string | undefined, body: unknown) {
+    if (typeof code === 'number' && code >= 400 && code < 600) {
+      return HttpError.fromStatus(code, message, { type, body, isApiError: true });
+    }
+    return new TripAdvisorError(message, code, type, true);
+  }
+
   /**
    * Check if response is an API error
    */
@@ -48,6 +58,123 @@ export class TripAdvisorError extends Error {
   }
 }
 
+/**
+ * HTTP error options
+ */
+export interface HttpErrorOptions {
+  /** Response headers */
+  headers?: Headers;
+  /** Parsed response body */
+  body?: unknown;
+  /** Error type reported by the API */
+  type?: string;
+  /** Whether the error was reported in an API error body */
+  isApiError?: boolean;
+}
+
+/**
+ * HTTP error class
+ *
+ * Thrown for error status codes. Subclasses identify the most common failures.
+ */
+export class HttpError extends TripAdvisorError {
+  public readonly status: number;
+  public readonly headers?: Headers;
+  public readonly body?: unknown;
+
+  constructor(message: string, status: number, options: HttpErrorOptions = {}) {
+    super(message, status, options.type, options.isApiError ?? false);
+    this.name = 'HttpError';
+    this.status = status;
+    this.headers = options.headers;
+    this.body = options.body;
+  }
+
+  /**
+   * Create the error instance matching an HTTP status
+   */
+  static fromStatus(status: number, message: string, options: HttpErrorOptions = {}): HttpError {
+    switch (status) {
+      case 401:
+        return new AuthenticationError(message, status, options);
+      case 403:
+        return new PermissionError(message, status, options);
+      case 404:
+        return new NotFoundError(message, status, options);
+      case 429:
+        return new RateLimitError(message, status, options);
+      default:
+        return status >= 500 ? new ServerError(message, status, options) : new HttpError(message, status, options);
+    }
+  }
+}
+
+/**
+ * Authentication error class (HTTP 401, e.g. missing or invalid API key)
+ */
+export class AuthenticationError extends HttpError {
+  constructor(message: string, status = 401, options: HttpErrorOptions = {}) {
+    super(message, status, options);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Permission error class (HTTP 403, e.g. key not allowed for this domain or endpoint)
+ */
+export class PermissionError extends HttpError {
+  constructor(message: string, status = 403, options: HttpErrorOptions = {}) {
+    super(message, status, options);
+    this.name = 'PermissionError';
+  }
+}
+
+/**
+ * Not found error class (HTTP 404)
+ */
+export class NotFoundError extends HttpError {
+  constructor(message: string, status = 404, options: HttpErrorOptions = {}) {
+    super(message, status, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Rate limit error class (HTTP 429, rate or quota exceeded)
+ */
+export class RateLimitError extends HttpError {
+  constructor(message: string, status = 429, options: HttpErrorOptions = {}) {
+    super(message, status, options);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Server error class (HTTP 5xx)
+ */
+export class ServerError extends HttpError {
+  constructor(message: string, status = 500, options: HttpErrorOptions = {}) {
+    super(message, status, options);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Network error class
+ *
+ * Thrown when no response was received, e.g. connection failures and timeouts.
+ */
+export class NetworkError extends TripAdvisorError {
+  public readonly isTimeout: boolean;
+
+  constructor(message: string, cause?: unknown, isTimeout = false) {
+    super(message);
+    this.name = 'NetworkError';
+    this.cause = cause;
+    this.isTimeout = isTimeout;
+  }
+}
+
 /**
  * Configuration error class
  */
@@ -67,3 +194,15 @@ export class ValidationError extends Error {
     this.name = 'ValidationError';
   }
 }
+
+/**
+ * Cassette error class
+ *
+ * Thrown in replay mode for requests without a recorded response.
+ */
+export class CassetteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CassetteError';
+  }
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { isOpenAt, nextOpening, openIntervalsForWeek, type OpeningHoursLocation } from './hours.js';
+
+const lunch = (day: number) => ({ open: { day, time: '1200' }, close: { day, time: '1430' } });
+
+// Lunch on weekdays, and late dinners on Friday and Saturday that close after midnight
+const restaurant: OpeningHoursLocation = {
+  timezone: 'Europe/Paris',
+  hours: {
+    periods: [
+      lunch(1),
+      lunch(2),
+      lunch(3),
+      lunch(4),
+      lunch(5),
+      { open: { day: 5, time: '1900' }, close: { day: 6, time: '0100' } },
+      { open: { day: 6, time: '1900' }, close: { day: 0, time: '0200' } },
+    ],
+  },
+};
+
+describe('isOpenAt', () => {
+  it('should evaluate opening hours in the location time zone', () => {
+    expect(isOpenAt(restaurant, new Date('2026-06-15T12:30:00+02:00'))).toBe(true);
+    expect(isOpenAt(restaurant, new Date('2026-06-15T12:30:00Z'))).toBe(false);
+    expect(isOpenAt(restaurant, new Date('2026-06-15T14:30:00+02:00'))).toBe(false);
+  });
+
+  it('should handle periods that cross midnight and the end of the week', () => {
+    expect(isOpenAt(restaurant, new Date('2026-06-20T00:30:00+02:00'))).toBe(true);
+    expect(isOpenAt(restaurant, new Date('2026-06-20T01:30:00+02:00'))).toBe(false);
+    expect(isOpenAt(restaurant, new Date('2026-06-21T01:00:00+02:00'))).toBe(true);
+  });
+
+  it('should handle 24-hour venues', () => {
+    const alwaysOpen = { timezone: 'Asia/Tokyo', hours: { periods: [{ open: { day: 0, time: '0000' } }] } };
+    const everyDay = {
+      timezone: 'Asia/Tokyo',
+      hours: {
+        periods: [0, 1, 2, 3, 4, 5, 6].map(day => ({
+          open: { day, time: '0000' },
+          close: { day: (day + 1) % 7, time: '0000' },
+        })),
+      },
+    };
+
+    expect(isOpenAt(alwaysOpen, new Date('2026-06-17T03:00:00Z'))).toBe(true);
+    expect(isOpenAt(everyDay, new Date('2026-06-20T23:59:00+09:00'))).toBe(true);
+    expect(nextOpening(alwaysOpen)).toBeUndefined();
+    expect(nextOpening(everyDay)).toBeUndefined();
+  });
+
+  it('should keep a location without a close entry open until the end of the day', () => {
+    const bar = { timezone: 'Europe/Paris', hours: { periods: [{ open: { day: 1, time: '1800' } }, lunch(2)] } };
+
+    expect(isOpenAt(bar, new Date('2026-06-15T23:30:00+02:00'))).toBe(true);
+    expect(isOpenAt(bar, new Date('2026-06-16T00:30:00+02:00'))).toBe(false);
+  });
+
+  it('should return undefined without opening hours', () => {
+    const hotel = { timezone: 'Europe/Paris' };
+
+    expect(isOpenAt(hotel)).toBeUndefined();
+    expect(isOpenAt({ ...hotel, hours: { periods: [] } })).toBeUndefined();
+    expect(nextOpening(hotel)).toBeUndefined();
+    expect(openIntervalsForWeek(hotel)).toBeUndefined();
+  });
+
+  it('should reject invalid time zones', () => {
+    expect(() => isOpenAt({ ...restaurant, timezone: 'Mars/Olympus_Mons' })).toThrow(RangeError);
+  });
+});
+
+describe('nextOpening', () => {
+  it('should return the next opening time', () => {
+    expect(nextOpening(restaurant, new Date('2026-06-15T15:00:00+02:00'))).toEqual(
+      new Date('2026-06-16T12:00:00+02:00')
+    );
+    expect(nextOpening(restaurant, new Date('2026-06-21T03:00:00+02:00'))).toEqual(
+      new Date('2026-06-22T12:00:00+02:00')
+    );
+  });
+
+  it('should include an opening at the start time', () => {
+    const from = new Date('2026-06-19T19:00:00+02:00');
+
+    expect(nextOpening(restaurant, from)).toEqual(from);
+  });
+
+  it('should skip the interval in progress', () => {
+    expect(nextOpening(restaurant, new Date('2026-06-19T12:30:00+02:00'))).toEqual(
+      new Date('2026-06-19T19:00:00+02:00')
+    );
+  });
+
+  it('should account for daylight saving time changes', () => {
+    const museum = {
+      timezone: 'America/New_York',
+      hours: { periods: [{ open: { day: 0, time: '0900' }, close: { day: 0, time: '1700' } }] },
+    };
+
+    // Clocks move forward on 2026-03-08, from UTC-5 to UTC-4
+    expect(nextOpening(museum, new Date('2026-03-07T12:00:00-05:00'))).toEqual(new Date('2026-03-08T09:00:00-04:00'));
+  });
+});
+
+describe('openIntervalsForWeek', () => {
+  it('should return the opening intervals of the week', () => {
+    const intervals = openIntervalsForWeek(restaurant, new Date('2026-06-15T00:00:00+02:00'));
+
+    expect(intervals).toHaveLength(7);
+    expect(intervals?.[0]).toEqual({
+      open: new Date('2026-06-15T12:00:00+02:00'),
+      close: new Date('2026-06-15T14:30:00+02:00'),
+    });
+    expect(intervals?.[6]).toEqual({
+      open: new Date('2026-06-20T19:00:00+02:00'),
+      close: new Date('2026-06-21T02:00:00+02:00'),
+    });
+  });
+
+  it('should include the interval in progress', () => {
+    const intervals = openIntervalsForWeek(restaurant, new Date('2026-06-21T01:00:00+02:00'));
+
+    expect(intervals?.[0]).toEqual({
+      open: new Date('2026-06-20T19:00:00+02:00'),
+      close: new Date('2026-06-21T02:00:00+02:00'),
+    });
+    expect(intervals?.[intervals.length - 1].open).toEqual(new Date('2026-06-27T19:00:00+02:00'));
+  });
+
+  it('should include the intervals of the next calendar week', () => {
+    const intervals = openIntervalsForWeek(restaurant, new Date('2026-06-17T15:00:00+02:00'));
+
+    expect(intervals?.map(({ open }) => open)).toEqual([
+      new Date('2026-06-18T12:00:00+02:00'),
+      new Date('2026-06-19T12:00:00+02:00'),
+      new Date('2026-06-19T19:00:00+02:00'),
+      new Date('2026-06-20T19:00:00+02:00'),
+      new Date('2026-06-22T12:00:00+02:00'),
+      new Date('2026-06-23T12:00:00+02:00'),
+      new Date('2026-06-24T12:00:00+02:00'),
+    ]);
+  });
+
+  it('should return a single interval for 24-hour venues', () => {
+    const alwaysOpen = { timezone: 'UTC', hours: { periods: [{ open: { day: 0, time: '0000' } }] } };
+
+    expect(openIntervalsForWeek(alwaysOpen, new Date('2026-06-17T15:00:00Z'))).toEqual([
+      { open: new Date('2026-06-14T00:00:00Z'), close: new Date('2026-06-28T00:00:00Z') },
+    ]);
+  });
+});
@@ -0,0 +1,257 @@
+import type { Period } from './types/common.js';
+
+/**
+ * Opening period, as returned in `hours.periods`
+ *
+ * `day` is 0 for Sunday to 6 for Saturday, and `time` is `HHMM` in the location's local time.
+ */
+export interface OpeningPeriod {
+  open: Period;
+  /** Missing when the location does not close, e.g. for 24-hour venues */
+  close?: Period;
+}
+
+/**
+ * Location with opening hours, such as attraction or restaurant details
+ */
+export interface OpeningHoursLocation {
+  /** IANA time zone, e.g. `Europe/Paris` */
+  timezone: string;
+  hours?: {
+    periods: OpeningPeriod[];
+  };
+}
+
+/**
+ * Opening interval
+ */
+export interface OpenInterval {
+  open: Date;
+  close: Date;
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const WEEK = 7 * DAY;
+
+/**
+ * Weekly interval, in milliseconds since Sunday 00:00 local time
+ *
+ * `end` may exceed a week when the interval continues into the next week.
+ */
+interface WeeklyInterval {
+  start: number;
+  end: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Determine if a location is open at a given time
+ *
+ * @param location - Location details with `timezone` and `hours`
+ * @param date - Time to check (default: now)
+ * @returns Whether the location is open, or undefined if it has no opening hours
+ * @throws RangeError if the time zone is not a valid IANA time zone
+ *
+ * @example
+ * ```typescript
+ * const details = await client.locationDetails('12345', {}, 'restaurants');
+ * if (isOpenAt(details)) {
+ *   console.log('Open now');
+ * }
+ * ```
+ */
+export function isOpenAt(location: OpeningHoursLocation, date: Date = new Date()): boolean | undefined {
+  const intervals = getWeeklyIntervals(location);
+  if (!intervals) {
+    return undefined;
+  }
+
+  const wallClock = toWallClock(date, location.timezone);
+  const position = wallClock - getWeekStart(wallClock);
+  return intervals.some(
+    ({ start, end }) => (start <= position && position < end) || (start <= position + WEEK && position + WEEK < end)
+  );
+}
+
+/**
+ * Get the next time a location opens
+ *
+ * @param location - Location details with `timezone` and `hours`
+ * @param from - Time to search from, inclusive (default: now)
+ * @returns Next opening time, or undefined if the location has no opening hours or never closes
+ * @throws RangeError if the time zone is not a valid IANA time zone
+ */
+export function nextOpening(location: OpeningHoursLocation, from: Date = new Date()): Date | undefined {
+  const intervals = getWeeklyIntervals(location);
+  if (!intervals || isAlwaysOpen(intervals)) {
+    return undefined;
+  }
+
+  const wallClock = toWallClock(from, location.timezone);
+  const weekStart = getWeekStart(wallClock);
+  const openings = intervals.map(({ start }) => {
+    const opening = weekStart + start;
+    return opening < wallClock ? opening + WEEK : opening;
+  });
+
+  return fromWallClock(Math.min(...openings), location.timezone);
+}
+
+/**
+ * Get the opening intervals of the week starting at a given time
+ *
+ * Intervals in progress at `from` are included with their actual opening time.
+ *
+ * @param location - Location details with `timezone` and `hours`
+ * @param from - Start of the week (default: now)
+ * @returns Opening intervals sorted by opening time, or undefined if the location has no opening hours
+ * @throws RangeError if the time zone is not a valid IANA time zone
+ */
+export function openIntervalsForWeek(
+  location: OpeningHoursLocation,
+  from: Date = new Date()
+): OpenInterval[] | undefined {
+  const intervals = getWeeklyIntervals(location);
+  if (!intervals) {
+    return undefined;
+  }
+
+  const wallClock = toWallClock(from, location.timezone);
+  const weekStart = getWeekStart(wallClock);
+
+  // The week starting at `from` can overlap the previous, current and next calendar weeks
+  const weekIntervals = [weekStart - WEEK, weekStart, weekStart + WEEK]
+    .flatMap(offset => intervals.map(({ start, end }) => ({ start: offset + start, end: offset + end })))
+    .filter(({ start, end }) => end > wallClock && start < wallClock + WEEK)
+    .sort((a, b) => a.start - b.start);
+
+  // Join intervals continuing from one calendar week into the next, e.g. for 24-hour venues
+  const merged: WeeklyInterval[] = [];
+  for (const interval of weekIntervals) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push(interval);
+    }
+  }
+
+  return merged.map(({ start, end }) => ({
+    open: fromWallClock(start, location.timezone),
+    close: fromWallClock(end, location.timezone),
+  }));
+}
+
+/**
+ * Convert opening periods into merged weekly intervals
+ *
+ * Periods crossing midnight end on the next day, and a period without `close` lasts until the end of its
+ * day, or the whole week when it is the only period and opens on Sunday at midnight.
+ */
+function getWeeklyIntervals(location: OpeningHoursLocation): WeeklyInterval[] | undefined {
+  const periods = location.hours?.periods;
+  if (!periods || periods.length === 0) {
+    return undefined;
+  }
+
+  const intervals = periods
+    .map(({ open, close }): WeeklyInterval => {
+      const start = open.day * DAY + parseTime(open.time);
+      if (!close) {
+        const alwaysOpen = periods.length === 1 && start === 0;
+        return { start, end: alwaysOpen ? WEEK : (open.day + 1) * DAY };
+      }
+
+      let end = close.day * DAY + parseTime(close.time);
+      while (end <= start) {
+        end += close.day === open.day ? DAY : WEEK;
+      }
+      return { start, end };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  // Merge overlapping and adjacent intervals, e.g. consecutive 24-hour days
+  const merged: WeeklyInterval[] = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  // Join the last interval with the first one when it continues into the next week
+  const first = merged[0];
+  const last = merged[merged.length - 1];
+  if (merged.length > 1 && last.end >= first.start + WEEK) {
+    last.end = Math.max(last.end, first.end + WEEK);
+    merged.shift();
+  }
+
+  return merged;
+}
+
+/**
+ * Determine if weekly intervals cover the whole week
+ */
+function isAlwaysOpen(intervals: WeeklyInterval[]): boolean {
+  return intervals.length === 1 && intervals[0].end - intervals[0].start >= WEEK;
+}
+
+/**
+ * Parse an `HHMM` time into milliseconds since midnight
+ */
+function parseTime(time: string): number {
+  const hours = Number(time.slice(0, 2));
+  const minutes = Number(time.slice(2, 4));
+  return (hours * 60 + minutes) * MINUTE;
+}
+
+/**
+ * Get the start of the week (Sunday 00:00) of a wall-clock time
+ */
+function getWeekStart(wallClock: number): number {
+  const dayStart = wallClock - (((wallClock % DAY) + DAY) % DAY);
+  return dayStart - new Date(dayStart).getUTCDay() * DAY;
+}
+
+/**
+ * Get the wall-clock time of a date in a time zone, as milliseconds since epoch in UTC
+ */
+function toWallClock(date: Date | number, timeZone: string): number {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map(({ type, value }) => [type, Number(value)])
+  ) as Record<Intl.DateTimeFormatPartTypes, number>;
+  const milliseconds = new Date(date).getTime() % 1000;
+
+  return (
+    Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) +
+    ((milliseconds + 1000) % 1000)
+  );
+}
+
+/**
+ * Get the date of a wall-clock time in a time zone
+ */
+function fromWallClock(wallClock: number, timeZone: string): Date {
+  const guess = wallClock - (toWallClock(wallClock, timeZone) - wallClock);
+  return new Date(wallClock - (toWallClock(guess, timeZone) - guess));
+}
@@ -1,8 +1,20 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { z } from 'zod';
+import { getCacheStatus, MemoryCacheStore } from './cache.js';
 import { ConfigManager } from './config.js';
-import { TripAdvisorError, ValidationError } from './errors.js';
+import { DriftDetector } from './drift.js';
+import {
+  AuthenticationError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  TripAdvisorError,
+  ValidationError,
+} from './errors.js';
 import { HttpClient } from './http-client.js';
+import { fakeReview } from './testing/factories.js';
+import { LocationReviewsResponseSchema } from './types/reviews.js';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -223,7 +235,7 @@ describe('HttpClient', () => {
 
       const flexibleSchema = z.object({
         searchQuery: z.string(),
-        language: z.string().optional(),
+        category: z.string().optional(),
         currency: z.string().nullable().optional(),
         validParam: z.string().optional(),
       });
@@ -232,7 +244,7 @@ describe('HttpClient', () => {
         '/location/search',
         {
           searchQuery: 'test',
-          language: undefined,
+          category: undefined,
           currency: null,
           validParam: 'value',
         },
@@ -243,11 +255,725 @@ describe('HttpClient', () => {
       const callUrl = mockFetch.mock.calls[0][0];
       expect(callUrl).toContain('searchQuery=test');
       expect(callUrl).toContain('validParam=value');
-      expect(callUrl).not.toContain('language=');
+      expect(callUrl).not.toContain('category=');
       expect(callUrl).not.toContain('currency=');
     });
   });
 
+  describe('language and currency defaults', () => {
+    const payloadSchema = z.object({ language: z.string().optional(), currency: z.string().optional() });
+    const responseSchema = z.object({ data: z.array(z.object({ location_id: z.string() })) });
+
+    const respond = (data: unknown[]) =>
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () => Promise.resolve({ data }),
+      });
+    const requestedLanguages = () => mockFetch.mock.calls.map(([url]) => new URL(url).searchParams.get('language'));
+
+    it('should use the configured language and currency', async () => {
+      mockConfig.updateConfig({ language: 'es', currency: 'EUR' });
+      respond([]);
+
+      await httpClient.request('/location/1/details', { language: undefined }, payloadSchema, responseSchema);
+
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.searchParams.get('language')).toBe('es');
+      expect(url.searchParams.get('currency')).toBe('EUR');
+    });
+
+    it('should prefer per-call values', async () => {
+      mockConfig.updateConfig({ language: 'es' });
+      respond([]);
+
+      await httpClient.request(
+        '/location/1/details',
+        { language: 'fr', currency: 'GBP' },
+        payloadSchema,
+        responseSchema
+      );
+
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.searchParams.get('language')).toBe('fr');
+      expect(url.searchParams.get('currency')).toBe('GBP');
+    });
+
+    it('should fall back to the library defaults', async () => {
+      mockConfig.updateConfig({ language: undefined, currency: undefined });
+      respond([]);
+
+      await httpClient.request('/location/1/details', {}, payloadSchema, responseSchema);
+
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.searchParams.get('language')).toBe('en');
+      expect(url.searchParams.get('currency')).toBe('USD');
+    });
+
+    it('should only add fields the payload schema accepts', async () => {
+      respond([]);
+
+      await httpClient.request('/location/1/photos', {}, z.object({ limit: z.number().optional() }), responseSchema);
+
+      expect(mockFetch.mock.calls[0][0]).not.toContain('language=');
+      expect(mockFetch.mock.calls[0][0]).not.toContain('currency=');
+    });
+
+    it('should not fall back by default', async () => {
+      respond([]);
+
+      await expect(
+        httpClient.request('/location/search', { language: 'pt-BR' }, payloadSchema, responseSchema)
+      ).resolves.toEqual({ data: [] });
+      expect(requestedLanguages()).toEqual(['pt-BR']);
+    });
+
+    it('should try the fallback chain while the data is empty', async () => {
+      mockConfig.updateConfig({ languageFallback: true });
+      respond([]);
+      respond([{ location_id: '1' }]);
+
+      const result = await httpClient.request('/location/search', { language: 'pt-BR' }, payloadSchema, responseSchema);
+
+      expect(result).toEqual({ data: [{ location_id: '1' }] });
+      expect(requestedLanguages()).toEqual(['pt-BR', 'pt']);
+    });
+
+    it('should not fall back on an empty page past the first one', async () => {
+      respond([]);
+
+      const result = await httpClient.request(
+        '/location/1/reviews',
+        { language: 'pt-BR', offset: 5 },
+        payloadSchema.extend({ offset: z.number().optional() }),
+        responseSchema,
+        { languageFallback: true }
+      );
+
+      expect(result).toEqual({ data: [] });
+      expect(requestedLanguages()).toEqual(['pt-BR']);
+    });
+
+    it('should try the next language when the API rejects one', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        headers: new Headers(),
+        text: () => Promise.resolve('{"error":{"message":"Invalid language","code":400}}'),
+      });
+      respond([{ location_id: '1' }]);
+
+      const result = await httpClient.request('/location/search', { language: 'xx' }, payloadSchema, responseSchema, {
+        languageFallback: ['en'],
+      });
+
+      expect(result).toEqual({ data: [{ location_id: '1' }] });
+      expect(requestedLanguages()).toEqual(['xx', 'en']);
+    });
+
+    it('should return the last response of the chain', async () => {
+      respond([]);
+      respond([]);
+
+      const result = await httpClient.request('/location/search', { language: 'fr' }, payloadSchema, responseSchema, {
+        languageFallback: true,
+      });
+
+      expect(result).toEqual({ data: [] });
+      expect(requestedLanguages()).toEqual(['fr', 'en']);
+    });
+
+    it('should not fall back on other errors', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        headers: new Headers(),
+        text: () => Promise.resolve(''),
+      });
+
+      await expect(
+        httpClient.request('/location/search', { language: 'fr' }, payloadSchema, responseSchema, {
+          languageFallback: true,
+          retries: 0,
+        })
+      ).rejects.toThrow(NotFoundError);
+      expect(requestedLanguages()).toEqual(['fr']);
+    });
+  });
+
+  describe('custom fetch', () => {
+    it('should send requests through the configured fetch', async () => {
+      const customFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () => Promise.resolve({ data: [] }),
+      });
+      const client = new HttpClient(new ConfigManager({ apiKey: 'test-key', fetch: customFetch }));
+
+      await client.request(
+        '/location/search',
+        { searchQuery: 'test' },
+        z.object({ searchQuery: z.string() }),
+        z.object({ data: z.array(z.any()) })
+      );
+
+      expect(customFetch).toHaveBeenCalledWith(expect.stringContaining('/location/search'), expect.any(Object));
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validation modes', () => {
+    const payloadSchema = z.object({});
+    const responseSchema = z.object({ location_id: z.string(), name: z.string(), brand: z.string() });
+    const respond = (body: unknown) =>
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () => Promise.resolve(body),
+      });
+
+    it('should throw on schema mismatches in strict mode', async () => {
+      respond({ location_id: '123', name: 'Test' });
+
+      await expect(httpClient.request('/location/123/details', {}, payloadSchema, responseSchema)).rejects.toThrow(
+        /Invalid response format/
+      );
+    });
+
+    it('should report issues and return best-effort data in lenient mode', async () => {
+      const onValidationIssue = vi.fn();
+      mockConfig.updateConfig({ validation: 'lenient', onValidationIssue });
+      respond({ location_id: '123', name: 'Test' });
+
+      const result = await httpClient.request('/location/123/details', {}, payloadSchema, responseSchema);
+
+      expect(result).toEqual({ location_id: '123', name: 'Test' });
+      expect(onValidationIssue).toHaveBeenCalledWith({
+        endpoint: '/location/123/details',
+        locationId: '123',
+        issues: [expect.objectContaining({ path: ['brand'], code: 'invalid_type' })],
+      });
+    });
+
+    it('should report the field paths of union response schemas', async () => {
+      const onValidationIssue = vi.fn();
+      mockConfig.updateConfig({ validation: 'lenient', onValidationIssue });
+      const { trip_type: _tripType, ...review } = fakeReview({ location_id: '123' });
+      respond({ data: [review] });
+
+      const result = await httpClient.request('/location/123/reviews', {}, z.object({}), LocationReviewsResponseSchema);
+
+      expect(result).toEqual({ data: [review] });
+      expect(onValidationIssue).toHaveBeenCalledWith({
+        endpoint: '/location/123/reviews',
+        locationId: '123',
+        issues: [expect.objectContaining({ path: ['data', 0, 'trip_type'], code: 'invalid_type' })],
+      });
+    });
+
+    it('should not report valid responses', async () => {
+      const onValidationIssue = vi.fn();
+      mockConfig.updateConfig({ validation: 'lenient', onValidationIssue });
+      respond({ location_id: '123', name: 'Test', brand: 'Brand' });
+
+      await httpClient.request('/location/123/details', {}, payloadSchema, responseSchema);
+
+      expect(onValidationIssue).not.toHaveBeenCalled();
+    });
+
+    it('should return responses as received when validation is off', async () => {
+      const body = { location_id: 123, extra: true };
+      respond(body);
+
+      await expect(
+        httpClient.request('/location/123/details', {}, payloadSchema, responseSchema, { validation: 'off' })
+      ).resolves.toEqual(body);
+    });
+  });
+
+  describe('drift detection', () => {
+    it('should inspect raw network responses', async () => {
+      const driftDetector = new DriftDetector();
+      mockConfig.updateConfig({ driftDetector });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () =>
+          Promise.resolve({
+            data: [
+              { location_id: '1', name: 'Test', address_obj: { city: 'C', state: 'S', country: 'C' }, rating: '5' },
+            ],
+          }),
+      });
+
+      await httpClient.request('/location/search', {}, z.object({}), z.object({ data: z.array(z.any()) }));
+
+      expect(driftDetector.getReport().findings).toEqual([
+        expect.objectContaining({ endpoint: 'search', kind: 'unknown_key', path: 'data[].rating' }),
+      ]);
+    });
+  });
+
+  describe('cache', () => {
+    const payloadSchema = z.object({ language: z.string().default('en') });
+    const responseSchema = z.object({ name: z.string() });
+    const okResponse = (body: unknown) => ({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: () => Promise.resolve(body),
+    });
+
+    let store: MemoryCacheStore;
+
+    beforeEach(() => {
+      store = new MemoryCacheStore();
+      httpClient = new HttpClient(new ConfigManager({ apiKey: 'test-key', cache: { store, ttl: 1000 } }));
+    });
+
+    it('should serve repeated requests from the cache', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse({ name: 'Test' }));
+
+      const first = await httpClient.request('/location/1/details', {}, payloadSchema, responseSchema);
+      const second = await httpClient.request('/location/1/details', { language: 'en' }, payloadSchema, responseSchema);
+
+      expect(second).toEqual({ name: 'Test' });
+      expect(getCacheStatus(first)).toEqual({ fromCache: false });
+      expect(getCacheStatus(second)).toEqual({ fromCache: true, storedAt: expect.any(Number) });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not include the API key in cache keys', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse({ name: 'Test' }));
+
+      await httpClient.request('/location/1/details', {}, payloadSchema, responseSchema);
+
+      expect(JSON.stringify([...(store as unknown as { entries: Map<string, unknown> }).entries.keys()])).not.toContain(
+        'test-key'
+      );
+    });
+
+    it('should refetch expired entries', async () => {
+      await store.set('/location/1/details?[["language","en"]]', {
+        value: { name: 'Stale' },
+        storedAt: 0,
+        expiresAt: Date.now() - 1,
+      });
+      mockFetch.mockResolvedValueOnce(okResponse({ name: 'Fresh' }));
+
+      const result = await httpClient.request('/location/1/details', {}, payloadSchema, responseSchema);
+
+      expect(result).toEqual({ name: 'Fresh' });
+    });
+
+    it('should apply per-endpoint TTLs', async () => {
+      httpClient = new HttpClient(
+        new ConfigManager({ apiKey: 'test-key', cache: { store, ttl: 1000, endpointTtl: { details: 5000 } } })
+      );
+      mockFetch.mockResolvedValueOnce(okResponse({ name: 'Test' }));
+
+      await httpClient.request('/location/1/details', {}, payloadSchema, responseSchema);
+
+      const entry = await store.get('/location/1/details?[["language","en"]]');
+      expect(entry!.expiresAt - entry!.storedAt).toBe(5000);
+    });
+
+    it('should return copies of cached responses when validation is off', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse({ name: 'Test' }));
+      const send = () =>
+        httpClient.request('/location/1/details', {}, payloadSchema, responseSchema, { validation: 'off' });
+
+      const first = await send();
+      first.name = 'Mutated';
+      const second = await send();
+
+      expect(second).toEqual({ name: 'Test' });
+      expect(getCacheStatus(first)).toEqual({ fromCache: false });
+      expect(getCacheStatus(second)).toEqual({ fromCache: true, storedAt: expect.any(Number) });
+    });
+
+    it('should skip the cache in bypass mode', async () => {
+      mockFetch.mockResolvedValue(okResponse({ name: 'Test' }));
+
+      await httpClient.request('/location/1/details', {}, payloadSchema, responseSchema, { cache: 'bypass' });
+      await httpClient.request('/location/1/details', {}, payloadSchema, responseSchema, { cache: 'bypass' });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(store.size).toBe(0);
+    });
+
+    it('should refetch and store the response in refresh mode', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse({ name: 'Old' })).mockResolvedValueOnce(okResponse({ name: 'New' }));
+
+      await httpClient.request('/location/1/details', {}, payloadSchema, responseSchema);
+      const refreshed = await httpClient.request('/location/1/details', {}, payloadSchema, responseSchema, {
+        cache: 'refresh',
+      });
+      const cached = await httpClient.request('/location/1/details', {}, payloadSchema, responseSchema);
+
+      expect(refreshed).toEqual({ name: 'New' });
+      expect(cached).toEqual({ name: 'New' });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache API error responses', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse({ error: { message: 'Not found', code: 404 } }));
+
+      await expect(httpClient.request('/location/1/details', {}, payloadSchema, responseSchema)).rejects.toThrow(
+        TripAdvisorError
+      );
+      expect(store.size).toBe(0);
+    });
+  });
+
+  describe('request coalescing', () => {
+    const payloadSchema = z.object({ language: z.string().default('en') });
+    const responseSchema = z.object({ name: z.string() });
+    const okResponse = () => ({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: () => Promise.resolve({ name: 'Test' }),
+    });
+
+    it('should share the response of identical in-flight requests', async () => {
+      mockFetch.mockResolvedValue(okResponse());
+
+      const [first, second] = await Promise.all([
+        httpClient.request('/location/1/details', {}, payloadSchema, responseSchema),
+        httpClient.request('/location/1/details', { language: 'en' }, payloadSchema, responseSchema),
+      ]);
+
+      expect(first).toEqual({ name: 'Test' });
+      expect(second).toEqual({ name: 'Test' });
+      expect(first).not.toBe(second);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not share requests with different payloads', async () => {
+      mockFetch.mockResolvedValue(okResponse());
+
+      await Promise.all([
+        httpClient.request('/location/1/details', { language: 'en' }, payloadSchema, responseSchema),
+        httpClient.request('/location/1/details', { language: 'fr' }, payloadSchema, responseSchema),
+      ]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should send separate requests when dedupe is disabled', async () => {
+      mockFetch.mockResolvedValue(okResponse());
+
+      await Promise.all([
+        httpClient.request('/location/1/details', {}, payloadSchema, responseSchema),
+        httpClient.request('/location/1/details', {}, payloadSchema, responseSchema, { dedupe: false }),
+      ]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share failures and send a new request afterwards', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('Bad request')).mockResolvedValueOnce(okResponse());
+
+      const results = await Promise.allSettled([
+        httpClient.request('/location/1/details', {}, payloadSchema, responseSchema, { retries: 0 }),
+        httpClient.request('/location/1/details', {}, payloadSchema, responseSchema, { retries: 0 }),
+      ]);
+
+      expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+      await expect(httpClient.request('/location/1/details', {}, payloadSchema, responseSchema)).resolves.toEqual({
+        name: 'Test',
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('retry policy', () => {
+    const errorResponse = (status: number, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      statusText: 'Error',
+      headers: new Headers(headers),
+      text: () => Promise.resolve(''),
+    });
+    const okResponse = {
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: () => Promise.resolve({ data: [] }),
+    };
+    const send = (options = {}) =>
+      httpClient.request('/location/1/details', {}, z.object({}), z.object({ data: z.array(z.any()) }), options);
+
+    it('should honor Retry-After and call onRetry', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(429, { 'Retry-After': '0.01' })).mockResolvedValueOnce(okResponse);
+      const onRetry = vi.fn();
+
+      await expect(send({ retryPolicy: { onRetry } })).resolves.toEqual({ data: [] });
+
+      expect(onRetry).toHaveBeenCalledWith(expect.any(RateLimitError), 1, 10);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only retry the configured status codes', async () => {
+      mockFetch.mockResolvedValue(errorResponse(503));
+
+      await expect(send({ retryPolicy: { retryableStatusCodes: [502] } })).rejects.toBeInstanceOf(ServerError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use a custom shouldRetry predicate', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(400)).mockResolvedValueOnce(okResponse);
+      const shouldRetry = vi.fn(() => true);
+
+      await expect(send({ retryPolicy: { shouldRetry, baseDelay: 1 } })).resolves.toEqual({ data: [] });
+      expect(shouldRetry).toHaveBeenCalledWith(expect.any(Error), 1);
+    });
+
+    it('should not retry response validation errors', async () => {
+      mockFetch.mockResolvedValue({ ...okResponse, json: () => Promise.resolve({ unexpected: 'fetch' }) });
+
+      await expect(send()).rejects.toBeInstanceOf(ValidationError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply the configured retry policy', async () => {
+      httpClient = new HttpClient(
+        new ConfigManager({ apiKey: 'test-key', retryPolicy: { maxAttempts: 2, baseDelay: 1, maxDelay: 1 } })
+      );
+      mockFetch.mockRejectedValue(new Error('fetch failed'));
+
+      await expect(send()).rejects.toBeInstanceOf(NetworkError);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      mockFetch.mockClear();
+      await expect(send({ retries: 0 })).rejects.toBeInstanceOf(NetworkError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('cancellation and deadlines', () => {
+    const send = (options = {}) => httpClient.request('/location/1/details', {}, z.object({}), z.any(), options);
+    const hangingFetch = (_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+      });
+
+    it('should reject immediately when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(send({ signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should abort an in-flight request without retrying', async () => {
+      mockFetch.mockImplementation(hangingFetch);
+      const controller = new AbortController();
+
+      const promise = send({ signal: controller.signal, retries: 3 });
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalled());
+      controller.abort();
+
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort while waiting for a retry', async () => {
+      mockFetch.mockRejectedValue(new Error('fetch failed'));
+      const controller = new AbortController();
+      const onRetry = vi.fn(() => controller.abort());
+
+      await expect(
+        send({ signal: controller.signal, retryPolicy: { maxAttempts: 3, baseDelay: 10000, jitter: false, onRetry } })
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should time out slow attempts', async () => {
+      mockFetch.mockImplementation(hangingFetch);
+
+      const error = await send({ timeout: 10, retries: 0 }).catch(error => error);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.message).toBe('Request timed out after 10ms');
+      expect(error.isTimeout).toBe(true);
+    });
+
+    it('should fail when the deadline has passed', async () => {
+      const error = await send({ deadline: Date.now() - 1 }).catch(error => error);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.message).toBe('Request deadline exceeded');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should not retry past the deadline', async () => {
+      mockFetch.mockRejectedValue(new Error('fetch failed'));
+
+      await expect(
+        send({ deadline: new Date(Date.now() + 1000), retryPolicy: { baseDelay: 5000, jitter: false } })
+      ).rejects.toThrow('fetch failed');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not share cancellable requests', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () => Promise.resolve({}),
+      });
+
+      await Promise.all([send(), send({ signal: new AbortController().signal })]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop waiting for the rate limiter when aborted or past the deadline', async () => {
+      httpClient = new HttpClient(new ConfigManager({ apiKey: 'test-key', rateLimit: { requestsPerSecond: 0.2 } }));
+      mockFetch.mockResolvedValue({ ok: true, status: 200, headers: new Headers(), json: () => Promise.resolve({}) });
+      await send();
+      const controller = new AbortController();
+      const started = Date.now();
+
+      const aborted = send({ signal: controller.signal });
+      setTimeout(() => controller.abort(), 10);
+      await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+      await expect(send({ deadline: Date.now() + 10 })).rejects.toThrow('Request deadline exceeded');
+
+      expect(Date.now() - started).toBeLessThan(1000);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(httpClient.getRateLimiterStats()?.queueDepth).toBe(0);
+    });
+
+    it('should not share requests with their own deadline or timeout', async () => {
+      httpClient = new HttpClient(new ConfigManager({ apiKey: 'test-key', timeout: 200 }));
+      mockFetch.mockImplementation(hangingFetch);
+
+      const first = send({ retries: 0 }).catch(error => error);
+      const second = await send({ deadline: Date.now() + 20, retries: 0 }).catch(error => error);
+      const third = await send({ timeout: 20, retries: 0 }).catch(error => error);
+
+      expect(second).toMatchObject({ isTimeout: true });
+      expect(third).toMatchObject({ message: 'Request timed out after 20ms', isTimeout: true });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      await expect(first).resolves.toMatchObject({ message: 'Request timed out after 200ms' });
+    });
+  });
+
+  describe('middleware', () => {
+    const responseSchema = z.object({ data: z.array(z.object({ name: z.string() })) });
+
+    it('should let middleware change the request', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () => Promise.resolve({ data: [] }),
+      });
+      httpClient.use(async (context, next) => {
+        context.baseUrl = 'https://relay.example.com/v1';
+        context.headers['X-Trace-Id'] = 'trace-1';
+        return next();
+      });
+
+      await httpClient.request(
+        '/location/search',
+        { searchQuery: 'test' },
+        z.object({ searchQuery: z.string() }),
+        responseSchema
+      );
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringMatching(/^https:\/\/relay\.example\.com\/v1\/location\/search\?key=test-key/),
+        expect.objectContaining({ headers: expect.objectContaining({ 'X-Trace-Id': 'trace-1' }) })
+      );
+    });
+
+    it('should validate the body returned by middleware', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () => Promise.resolve({ data: [{ title: 'Test' }] }),
+      });
+      httpClient.use(async (_context, next) => {
+        const body = (await next()) as { data: Array<{ title: string }> };
+        return { data: body.data.map(item => ({ name: item.title })) };
+      });
+
+      await expect(httpClient.request('/location/search', {}, z.object({}), responseSchema)).resolves.toEqual({
+        data: [{ name: 'Test' }],
+      });
+    });
+
+    it('should allow middleware to short-circuit', async () => {
+      httpClient.use(async () => ({ data: [{ name: 'Mocked' }] }));
+
+      await expect(httpClient.request('/location/search', {}, z.object({}), responseSchema)).resolves.toEqual({
+        data: [{ name: 'Mocked' }],
+      });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should surface API errors to middleware', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () => Promise.resolve({ Message: 'Forbidden' }),
+      });
+      const onError = vi.fn();
+      httpClient.use(async (_context, next) =>
+        next().catch(error => {
+          onError(error);
+          throw error;
+        })
+      );
+
+      await expect(httpClient.request('/location/search', {}, z.object({}), responseSchema)).rejects.toThrow(
+        'Forbidden'
+      );
+      expect(onError).toHaveBeenCalledWith(expect.any(TripAdvisorError));
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('should report no statistics when rate limiting is disabled', () => {
+      expect(httpClient.getRateLimiterStats()).toBeUndefined();
+    });
+
+    it('should send requests through the rate limiter', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () => Promise.resolve({ data: [] }),
+      });
+      const config = new ConfigManager({ apiKey: 'test-key', rateLimit: { requestsPerSecond: 5, burst: 2 } });
+      httpClient = new HttpClient(config);
+
+      await httpClient.request(
+        '/location/search',
+        { searchQuery: 'test' },
+        z.object({ searchQuery: z.string() }),
+        z.object({ data: z.array(z.any()) })
+      );
+
+      expect(httpClient.getRateLimiterStats()).toMatchObject({ queueDepth: 0, totalRequests: 1 });
+
+      config.updateConfig({ rateLimit: { requestsPerSecond: 1 } });
+      expect(httpClient.getRateLimiterStats()).toMatchObject({ totalRequests: 0, availableTokens: 1 });
+    });
+  });
+
   describe('error handling', () => {
     it('should handle timeout errors', async () => {
       const abortError = new Error('timeout');
@@ -264,6 +990,78 @@ describe('HttpClient', () => {
       ).rejects.toThrow('timeout');
     });
 
+    it('should throw typed HTTP errors without retrying client errors', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 401,
+        statusText: 'Unauthorized',
+        headers: new Headers({ 'x-request-id': 'abc' }),
+        text: () => Promise.resolve(JSON.stringify({ error: { message: 'Invalid key', type: 'AUTH' } })),
+      });
+
+      const error = await httpClient
+        .request('/location/search', { searchQuery: 'test' }, z.object({ searchQuery: z.string() }), z.any())
+        .catch(error => error);
+
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect(error.message).toBe('HTTP 401: Invalid key');
+      expect(error.status).toBe(401);
+      expect(error.type).toBe('AUTH');
+      expect(error.isApiError).toBe(true);
+      expect(error.headers.get('x-request-id')).toBe('abc');
+      expect(error.body).toEqual({ error: { message: 'Invalid key', type: 'AUTH' } });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep non-JSON error bodies as text', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        headers: new Headers(),
+        text: () => Promise.resolve('<html>Not Found</html>'),
+      });
+
+      const error = await httpClient.request('/location/1/details', {}, z.object({}), z.any()).catch(error => error);
+
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error.message).toBe('HTTP 404: Not Found');
+      expect(error.body).toBe('<html>Not Found</html>');
+    });
+
+    it('should retry server errors', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 503,
+          statusText: 'Service Unavailable',
+          headers: new Headers(),
+          text: () => Promise.reject(new Error('stream error')),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers(),
+          json: () => Promise.resolve({ data: [] }),
+        });
+
+      await expect(
+        httpClient.request('/location/1/details', {}, z.object({}), z.any(), { retries: 1, retryDelay: 1 })
+      ).resolves.toEqual({ data: [] });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 500,
+        statusText: 'Internal Server Error',
+        headers: new Headers(),
+        text: () => Promise.resolve(''),
+      });
+      await expect(
+        httpClient.request('/location/1/details', {}, z.object({}), z.any(), { retries: 0 })
+      ).rejects.toBeInstanceOf(ServerError);
+    });
+
     it('should handle network errors', async () => {
       mockFetch.mockRejectedValue(new Error('Network request failed'));
 
@@ -275,6 +1073,17 @@ describe('HttpClient', () => {
           z.object({ data: z.array(z.any()) })
         )
       ).rejects.toThrow('Network request failed');
+      await expect(
+        httpClient.request(
+          '/location/search',
+          { searchQuery: 'test' },
+          z.object({ searchQuery: z.string() }),
+          z.any(),
+          {
+            retries: 0,
+          }
+        )
+      ).rejects.toBeInstanceOf(NetworkError);
     });
   });
 });
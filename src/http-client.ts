@@ -1,6 +1,26 @@
 import { z } from 'zod';
+import {
+  buildCacheKey,
+  DEFAULT_CACHE_TTL,
+  getCacheEndpoint,
+  setCacheStatus,
+  type CacheEndpoint,
+  type CacheMode,
+} from './cache.js';
+import { Cassette, type CassetteConfig } from './cassette.js';
 import { ConfigManager } from './config.js';
-import { TripAdvisorError, ValidationError } from './errors.js';
+import { HttpError, NetworkError, TripAdvisorError, ValidationError } from './errors.js';
+import { getLanguageFallbackChain, type LanguageFallback } from './locale.js';
+import { runMiddleware, type Middleware, type MiddlewareContext } from './middleware.js';
+import { RateLimiter, type RateLimitConfig, type RateLimiterStats } from './rate-limiter.js';
+import {
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  isRetryable,
+  type ResolvedRetryPolicy,
+  type RetryPolicy,
+} from './retry.js';
+import { getEndpointLocationId, getSchemaIssues, parseLeniently, type ValidationMode } from './validation.js';
 
 /**
  * HTTP request options
@@ -8,9 +28,52 @@ import { TripAdvisorError, ValidationError } from './errors.js';
 export interface RequestOptions {
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
   headers?: Record<string, string>;
+  /** Timeout of each attempt in milliseconds */
   timeout?: number;
+  /** Signal to cancel the request, including retries */
+  signal?: AbortSignal;
+  /** Time by which the request, including retries, must complete (a `Date` or milliseconds since epoch) */
+  deadline?: Date | number;
   retries?: number;
   retryDelay?: number;
+  /** Retry policy, merged over the configured policy */
+  retryPolicy?: RetryPolicy;
+  cache?: CacheMode;
+  /** Share the response of an identical in-flight request (default: true) */
+  dedupe?: boolean;
+  /** Locale fallback chain, overriding the configured one */
+  languageFallback?: LanguageFallback;
+  /** Response validation mode, overriding the configured one */
+  validation?: ValidationMode;
+}
+
+/**
+ * Request options accepted by every client method
+ */
+export type ClientRequestOptions = Pick<
+  RequestOptions,
+  | 'signal'
+  | 'timeout'
+  | 'deadline'
+  | 'retries'
+  | 'retryPolicy'
+  | 'headers'
+  | 'cache'
+  | 'dedupe'
+  | 'languageFallback'
+  | 'validation'
+>;
+
+/**
+ * Options of a single request, shared by all of its attempts
+ */
+interface SendOptions {
+  timeout: number;
+  signal?: AbortSignal;
+  /** Deadline in milliseconds since epoch */
+  deadline?: number;
+  /** Fetch implementation (default: the configured one) */
+  fetch?: typeof fetch;
 }
 
 /**
@@ -27,13 +90,37 @@ export interface HttpResponse<T = unknown> {
  */
 export class HttpClient {
   private config: ConfigManager;
+  private rateLimiter?: RateLimiter;
+  private rateLimitConfig?: RateLimitConfig;
+  private cassette?: Cassette;
+  private cassetteConfig?: CassetteConfig;
+  private inFlightRequests = new Map<string, Promise<unknown>>();
+  private middlewares: Middleware[] = [];
 
   constructor(config: ConfigManager) {
     this.config = config;
   }
 
+  /**
+   * Add a middleware to the end of the chain
+   */
+  use(middleware: Middleware): void {
+    this.middlewares.push(middleware);
+  }
+
+  /**
+   * Get rate limiter statistics, if rate limiting is enabled
+   */
+  getRateLimiterStats(): RateLimiterStats | undefined {
+    return this.getRateLimiter()?.getStats();
+  }
+
   /**
    * Send HTTP request
+   *
+   * A missing `language` or `currency` is taken from the client configuration when the payload schema
+   * accepts it. With locale fallback enabled, the next language of the chain is tried when the API
+   * rejects a language with a 400 response or returns an empty `data` list for the first page.
    */
   async request<T extends z.ZodSchema>(
     endpoint: string,
@@ -42,35 +129,151 @@ export class HttpClient {
     responseSchema: T,
     options: RequestOptions = {}
   ): Promise<z.infer<T>> {
-    const {
-      method = 'GET',
-      headers = {},
-      timeout = this.config.getTimeout(),
-      retries = this.config.getRetries(),
-      retryDelay = this.config.getRetryDelay(),
-    } = options;
+    options.signal?.throwIfAborted();
 
     // Validate request payload
     let validatedPayload: Record<string, unknown>;
     try {
-      validatedPayload = payloadSchema.parse(payload);
+      validatedPayload = payloadSchema.parse(this.applyDefaults(payload, payloadSchema));
     } catch (error) {
       throw new ValidationError(`Invalid request payload: ${error}`);
     }
 
-    // Build URL and parameters
-    const url = this.buildUrl(endpoint, validatedPayload);
-    const requestHeaders = this.buildHeaders(headers);
+    const { language } = validatedPayload;
+    if (typeof language !== 'string') {
+      return this.send(endpoint, validatedPayload, responseSchema, options);
+    }
+
+    const languages = getLanguageFallbackChain(language, options.languageFallback ?? this.config.getLanguageFallback());
+    for (const fallbackLanguage of languages.slice(0, -1)) {
+      try {
+        const result = await this.send(
+          endpoint,
+          { ...validatedPayload, language: fallbackLanguage },
+          responseSchema,
+          options
+        );
+        // An empty page past the first one is the end of the list, not a missing translation
+        if (!this.isEmptyResult(result) || Number(validatedPayload.offset ?? 0) > 0) {
+          return result;
+        }
+      } catch (error) {
+        if (!(error instanceof HttpError && error.status === 400)) {
+          throw error;
+        }
+      }
+    }
 
-    // Send request (with retry)
-    return this.sendWithRetry(url, method, requestHeaders, responseSchema, retries, retryDelay, timeout);
+    return this.send(
+      endpoint,
+      { ...validatedPayload, language: languages[languages.length - 1] },
+      responseSchema,
+      options
+    );
+  }
+
+  /**
+   * Send a request with a validated payload, through the cache and middleware
+   */
+  private async send<T extends z.ZodSchema>(
+    endpoint: string,
+    validatedPayload: Record<string, unknown>,
+    responseSchema: T,
+    options: RequestOptions
+  ): Promise<z.infer<T>> {
+    const {
+      method = 'GET',
+      headers = {},
+      timeout = this.config.getTimeout(),
+      signal,
+      deadline,
+      cache: cacheMode = 'default',
+      dedupe = true,
+      validation = this.config.getValidation(),
+    } = options;
+
+    // Serve from cache when possible
+    const cache = cacheMode === 'bypass' ? undefined : this.config.getCache();
+    const cacheKey = buildCacheKey(endpoint, validatedPayload);
+    if (cache?.store && cacheMode === 'default') {
+      const entry = await cache.store.get(cacheKey);
+      if (entry && entry.expiresAt > Date.now()) {
+        return setCacheStatus(this.parseResponse(entry.value, responseSchema, endpoint, validation), {
+          fromCache: true,
+          storedAt: entry.storedAt,
+        });
+      }
+    }
+
+    const context: MiddlewareContext = {
+      baseUrl: this.config.getBaseUrl(),
+      endpoint,
+      payload: validatedPayload,
+      method,
+      headers: this.buildHeaders(headers),
+    };
+    const retryPolicy = this.resolveRetryPolicy(options);
+    const sendOptions: SendOptions = {
+      timeout,
+      signal,
+      deadline: deadline === undefined ? undefined : new Date(deadline).getTime(),
+    };
+
+    const data = await runMiddleware(this.middlewares, context, ({ baseUrl, endpoint, payload, method, headers }) => {
+      // Build URL and parameters
+      const url = this.buildUrl(baseUrl, endpoint, payload);
+
+      // Send request (with retry), sharing the response of an identical in-flight request.
+      // Requests with their own signal, deadline or timeout are never shared, so that each keeps its own limits.
+      const send = async () => {
+        const fetchFn = await this.getCassette()?.getFetch(method, endpoint, payload, this.config.getFetch());
+        const data = await this.sendWithRetry(url, method, headers, retryPolicy, { ...sendOptions, fetch: fetchFn });
+        this.config.getDriftDetector()?.inspect(endpoint, data);
+        return data;
+      };
+      const shareable = dedupe && !signal && deadline === undefined && options.timeout === undefined;
+      return shareable ? this.coalesce(`${method} ${url} ${JSON.stringify(headers)}`, send) : send();
+    });
+    const result = this.parseResponse(data, responseSchema, endpoint, validation);
+
+    if (cache?.store) {
+      const storedAt = Date.now();
+      const ttl = cache.endpointTtl?.[getCacheEndpoint(endpoint) as CacheEndpoint] ?? cache.ttl ?? DEFAULT_CACHE_TTL;
+      await cache.store.set(cacheKey, { value: data, storedAt, expiresAt: storedAt + ttl });
+    }
+
+    return setCacheStatus(result, { fromCache: false });
+  }
+
+  /**
+   * Fill in the configured language and currency for the fields the payload schema accepts
+   */
+  private applyDefaults(payload: Record<string, unknown>, payloadSchema: z.ZodSchema): Record<string, unknown> {
+    const shape: z.ZodRawShape = payloadSchema instanceof z.ZodObject ? payloadSchema.shape : {};
+    const defaults = { language: this.config.getLanguage(), currency: this.config.getCurrency() };
+    const merged = { ...payload };
+
+    for (const [key, value] of Object.entries(defaults)) {
+      if (key in shape && merged[key] === undefined) {
+        merged[key] = value;
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * Determine if a response has an empty `data` list
+   */
+  private isEmptyResult(result: unknown): boolean {
+    const data = (result as { data?: unknown } | undefined)?.data;
+    return Array.isArray(data) && data.length === 0;
   }
 
   /**
    * Build complete URL
    */
-  private buildUrl(endpoint: string, payload: Record<string, unknown>): string {
-    const baseUrl = this.config.getBaseUrl();
+  private buildUrl(baseUrl: string, endpoint: string, payload: Record<string, unknown>): string {
     const params = new URLSearchParams();
 
     // Add API key
@@ -89,7 +292,7 @@ export class HttpClient {
   /**
    * Build request headers
    */
-  private buildHeaders(customHeaders: Record<string, string>): HeadersInit {
+  private buildHeaders(customHeaders: Record<string, string>): Record<string, string> {
     return {
       Accept: 'application/json',
       'Content-Type': 'application/json',
@@ -97,23 +300,46 @@ export class HttpClient {
     };
   }
 
+  /**
+   * Run a request, or join the identical request already in flight
+   */
+  private coalesce(key: string, send: () => Promise<unknown>): Promise<unknown> {
+    const inFlight = this.inFlightRequests.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const promise = send().finally(() => this.inFlightRequests.delete(key));
+    this.inFlightRequests.set(key, promise);
+    return promise;
+  }
+
   /**
    * Send request with retry
+   *
+   * @returns Raw response data
    */
-  private async sendWithRetry<T extends z.ZodSchema>(
+  private async sendWithRetry(
     url: string,
     method: string,
     headers: HeadersInit,
-    responseSchema: T,
-    retries: number,
-    retryDelay: number,
-    timeout: number
-  ): Promise<z.infer<T>> {
-    let lastError: Error;
+    retryPolicy: ResolvedRetryPolicy,
+    sendOptions: SendOptions
+  ): Promise<unknown> {
+    const { signal, deadline } = sendOptions;
 
-    for (let attempt = 0; attempt <= retries; attempt++) {
+    for (let attempt = 1; ; attempt++) {
       try {
-        const response = await this.sendRequest(url, method, headers, timeout);
+        await this.acquireToken(sendOptions);
+        signal?.throwIfAborted();
+        const response = await this.sendRequest(
+          url,
+          method,
+          headers,
+          this.getAttemptTimeout(sendOptions),
+          signal,
+          sendOptions.fetch
+        );
         const data = await response.json();
 
         // Check if response is an API error
@@ -121,78 +347,242 @@ export class HttpClient {
           throw TripAdvisorError.fromApiResponse(data);
         }
 
-        // Validate response data
-        try {
-          return responseSchema.parse(data);
-        } catch (error) {
-          throw new ValidationError(`Invalid response format: ${error}`);
-        }
+        return data;
       } catch (error) {
-        lastError = error as Error;
-
-        // If this is the last attempt, throw error
-        if (attempt === retries) {
-          break;
+        if (signal?.aborted || !isRetryable(error as Error, attempt, retryPolicy)) {
+          throw error;
         }
 
-        // If not a network error or timeout, don't retry
-        if (!this.isRetryableError(error as Error)) {
-          break;
+        // Don't retry when the next attempt would start after the deadline
+        const delay = getRetryDelay(error as Error, attempt, retryPolicy);
+        if (deadline !== undefined && Date.now() + delay >= deadline) {
+          throw error;
         }
 
         // Wait before retrying
-        await this.delay(retryDelay * Math.pow(2, attempt));
+        retryPolicy.onRetry?.(error as Error, attempt, delay);
+        await this.delay(delay, signal);
       }
     }
+  }
+
+  /**
+   * Wait for a rate limiter token, until the request is aborted or its deadline has passed
+   */
+  private async acquireToken({ signal, deadline }: SendOptions): Promise<void> {
+    const rateLimiter = this.getRateLimiter();
+    if (!rateLimiter || deadline === undefined) {
+      return rateLimiter?.acquire(signal);
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(
+      () => controller.abort(new NetworkError('Request deadline exceeded', undefined, true)),
+      Math.max(0, deadline - Date.now())
+    );
+    const onAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      onAbort();
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      await rateLimiter.acquire(controller.signal);
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Get the timeout of the next attempt, shortened to the time left before the deadline
+   */
+  private getAttemptTimeout({ timeout, deadline }: SendOptions): number {
+    if (deadline === undefined) {
+      return timeout;
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new NetworkError('Request deadline exceeded', undefined, true);
+    }
+    return Math.min(timeout, remaining);
+  }
+
+  /**
+   * Resolve the retry policy of a request
+   *
+   * Per-call options take precedence over the configuration, and explicit policy fields over `retries`/`retryDelay`.
+   */
+  private resolveRetryPolicy(options: RequestOptions): ResolvedRetryPolicy {
+    const configPolicy = this.config.getRetryPolicy();
+    const callPolicy = options.retryPolicy;
+    const callMaxAttempts = options.retries !== undefined ? options.retries + 1 : undefined;
+
+    return {
+      ...DEFAULT_RETRY_POLICY,
+      ...configPolicy,
+      ...callPolicy,
+      maxAttempts:
+        callPolicy?.maxAttempts ?? callMaxAttempts ?? configPolicy?.maxAttempts ?? this.config.getRetries() + 1,
+      baseDelay: callPolicy?.baseDelay ?? options.retryDelay ?? configPolicy?.baseDelay ?? this.config.getRetryDelay(),
+    };
+  }
+
+  /**
+   * Validate response data
+   *
+   * In lenient mode, issues are reported through `onValidationIssue` and best-effort data is returned.
+   */
+  private parseResponse<T extends z.ZodSchema>(
+    data: unknown,
+    responseSchema: T,
+    endpoint: string,
+    validation: ValidationMode
+  ): z.infer<T> {
+    // Parsing copies the data; copy it too when validation is off, so that callers never share cached objects
+    if (validation === 'off') {
+      return structuredClone(data) as z.infer<T>;
+    }
 
-    throw lastError!;
+    const result = responseSchema.safeParse(data);
+    if (result.success) {
+      return result.data;
+    }
+    if (validation === 'strict') {
+      throw new ValidationError(`Invalid response format: ${result.error}`);
+    }
+
+    this.config.getOnValidationIssue()?.({
+      endpoint,
+      locationId: getEndpointLocationId(endpoint),
+      issues: getSchemaIssues(responseSchema, data),
+    });
+    return parseLeniently(responseSchema, data);
   }
 
   /**
    * Send single request
    */
-  private async sendRequest(url: string, method: string, headers: HeadersInit, timeout: number): Promise<Response> {
+  private async sendRequest(
+    url: string,
+    method: string,
+    headers: HeadersInit,
+    timeout: number,
+    signal?: AbortSignal,
+    fetchFn: typeof fetch = this.config.getFetch()
+  ): Promise<Response> {
+    // Abort on timeout or when the caller's signal is aborted
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
 
+    let response: Response;
     try {
-      const response = await fetch(url, {
+      response = await fetchFn(url, {
         method,
         headers,
         signal: controller.signal,
       });
-
+    } catch (error) {
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      if (timedOut) {
+        throw new NetworkError(`Request timed out after ${timeout}ms`, error, true);
+      }
+      throw new NetworkError((error as Error).message, error, (error as Error).name === 'AbortError');
+    } finally {
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (!response.ok) {
+      const body = await this.readBody(response);
+      const apiError = TripAdvisorError.isApiError(body) ? TripAdvisorError.fromApiResponse(body) : undefined;
+
+      throw HttpError.fromStatus(
+        response.status,
+        `HTTP ${response.status}: ${apiError?.message ?? response.statusText}`,
+        {
+          headers: response.headers,
+          body,
+          type: apiError?.type,
+          isApiError: !!apiError,
+        }
+      );
+    }
+
+    return response;
+  }
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  /**
+   * Read an error response body, as JSON when possible
+   */
+  private async readBody(response: Response): Promise<unknown> {
+    try {
+      const text = await response.text();
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text || undefined;
       }
+    } catch {
+      return undefined;
+    }
+  }
 
-      return response;
-    } catch (error) {
-      clearTimeout(timeoutId);
-      throw error;
+  /**
+   * Get the cassette matching the current configuration
+   */
+  private getCassette(): Cassette | undefined {
+    const cassetteConfig = this.config.getCassette();
+
+    if (cassetteConfig !== this.cassetteConfig) {
+      this.cassetteConfig = cassetteConfig;
+      this.cassette = cassetteConfig && new Cassette(cassetteConfig);
     }
+
+    return this.cassette;
   }
 
   /**
-   * Determine if error is retryable
+   * Get the rate limiter matching the current configuration
    */
-  private isRetryableError(error: Error): boolean {
-    // Network errors, timeouts, 5xx server errors can be retried
-    return (
-      error.name === 'AbortError' ||
-      error.message.includes('fetch') ||
-      error.message.includes('network') ||
-      error.message.includes('timeout') ||
-      /^5\d{2}/.test(error.message)
-    );
+  private getRateLimiter(): RateLimiter | undefined {
+    const rateLimitConfig = this.config.getRateLimit();
+
+    if (rateLimitConfig !== this.rateLimitConfig) {
+      this.rateLimitConfig = rateLimitConfig;
+      this.rateLimiter = rateLimitConfig && new RateLimiter(rateLimitConfig);
+    }
+
+    return this.rateLimiter;
   }
 
   /**
    * Delay function
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(signal?.reason);
+      };
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 }
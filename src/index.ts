@@ -1,24 +1,101 @@
 // Main entry file
-export { TripAdvisorClient, tripAdvisorClient } from './client.js';
+export { TripAdvisorClient, getDefaultClient, tripAdvisorClient } from './client.js';
 
 // Export types
 export type {
+  Avatar,
+  Coordinates,
   LocationDetailsAttractionResponse,
   LocationDetailsGeosResponse,
   LocationDetailsHotelResponse,
   LocationDetailsPayload,
   LocationDetailsResponse,
   LocationDetailsRestaurantResponse,
+  LocationNearbySearchPayload,
+  LocationNearbySearchResult,
   LocationPhotosData,
+  LocationPhotosPayload,
   LocationReviewsPayload,
   LocationReviewsResult,
   LocationSearchPayload,
   LocationSearchResult,
+  NormalizedLocationDetails,
+  NormalizedLocationDetailsAttraction,
+  NormalizedLocationDetailsGeos,
+  NormalizedLocationDetailsHotel,
+  NormalizedLocationDetailsRestaurant,
+  NormalizedLocationNearbySearchResult,
+  NormalizedLocationPhotosData,
+  NormalizedLocationReviewsResult,
+  NormalizedLocationSearchResult,
+  NormalizedSubratings,
+  Subrating,
+  SubratingKey,
+  Subratings,
   TripAdvisorCategory,
+  TripAdvisorUser,
 } from './types/index.js';
 
+// Export subrating helpers
+export { getSubratingValues } from './types/index.js';
+
+// Export cache stores, helpers and types
+export { FileCacheStore, MemoryCacheStore, getCacheStatus } from './cache.js';
+export type { CacheConfig, CacheEndpoint, CacheEntry, CacheMode, CacheStatus, CacheStore } from './cache.js';
+
+// Export request option types
+export type { ClientRequestOptions } from './http-client.js';
+
+// Export middleware types
+export type { Middleware, MiddlewareContext } from './middleware.js';
+
+// Export pagination types
+export type { PaginationOptions } from './pagination.js';
+
+// Export batch and profile types
+export type { BatchError, BatchOptions, BatchResult, SettledResult } from './batch.js';
+export type { LocationProfile, LocationProfileOptions } from './profile.js';
+
+// Export record/replay types
+export type { CassetteConfig, CassetteMode, CassetteRecording, UnmatchedRequestMode } from './cassette.js';
+
+// Export schema drift detection
+export { DriftDetector, formatDriftReport } from './drift.js';
+export type { DriftFinding, DriftKind, DriftReport } from './drift.js';
+
+// Export validation types
+export type { ValidationMode, ValidationReport } from './validation.js';
+
+// Export opening hours helpers
+export { isOpenAt, nextOpening, openIntervalsForWeek } from './hours.js';
+export type { OpenInterval, OpeningHoursLocation, OpeningPeriod } from './hours.js';
+
+// Export locale helpers
+export { getLanguageFallbackChain } from './locale.js';
+export type { LanguageFallback } from './locale.js';
+
+// Export retry types
+export type { RetryPolicy } from './retry.js';
+
+// Export rate limiting types
+export type { RateLimitConfig, RateLimiterStats } from './rate-limiter.js';
+
 // Export error classes
-export { ConfigurationError, TripAdvisorError, ValidationError } from './errors.js';
+export {
+  AuthenticationError,
+  CassetteError,
+  ConfigurationError,
+  HttpError,
+  NetworkError,
+  NotFoundError,
+  PermissionError,
+  RateLimitError,
+  ServerError,
+  TripAdvisorError,
+  ValidationError,
+} from './errors.js';
+export type { HttpErrorOptions } from './errors.js';
 
-// Export configuration types
+// Export configuration loader and types
+export { loadConfigFromEnv } from './config.js';
 export type { TripAdvisorConfig } from './config.js';
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { getLanguageFallbackChain } from './locale.js';
+
+describe('getLanguageFallbackChain', () => {
+  it('should only return the requested language when fallback is disabled', () => {
+    expect(getLanguageFallbackChain('pt-BR')).toEqual(['pt-BR']);
+    expect(getLanguageFallbackChain('pt-BR', false)).toEqual(['pt-BR']);
+  });
+
+  it('should try parent locales, then English', () => {
+    expect(getLanguageFallbackChain('pt-BR', true)).toEqual(['pt-BR', 'pt', 'en']);
+    expect(getLanguageFallbackChain('zh-Hant-TW', true)).toEqual(['zh-Hant-TW', 'zh-Hant', 'zh', 'en']);
+    expect(getLanguageFallbackChain('es_AR', true)).toEqual(['es_AR', 'es', 'en']);
+  });
+
+  it('should not repeat languages', () => {
+    expect(getLanguageFallbackChain('en-GB', true)).toEqual(['en-GB', 'en']);
+    expect(getLanguageFallbackChain('en', true)).toEqual(['en']);
+  });
+
+  it('should append a custom chain', () => {
+    expect(getLanguageFallbackChain('fr-CA', ['fr', 'es', 'en'])).toEqual(['fr-CA', 'fr', 'es', 'en']);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Default language, also used at the end of the default fallback chain
+ */
+export const DEFAULT_LANGUAGE = 'en';
+
+/**
+ * Default currency
+ */
+export const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Locale fallback configuration
+ *
+ * `true` tries the parent locales of the requested language, then `en`. An array lists the
+ * languages tried after the parent locales, in order.
+ */
+export type LanguageFallback = boolean | string[];
+
+/**
+ * Build the list of languages to try for a request
+ *
+ * @example
+ * ```typescript
+ * getLanguageFallbackChain('pt-BR', true); // ['pt-BR', 'pt', 'en']
+ * getLanguageFallbackChain('zh_TW', ['zh', 'en']); // ['zh_TW', 'zh', 'en']
+ * ```
+ *
+ * @param language - Requested language
+ * @param fallback - Locale fallback configuration
+ * @returns Languages to try, starting with the requested one
+ */
+export function getLanguageFallbackChain(language: string, fallback: LanguageFallback = false): string[] {
+  if (!fallback) {
+    return [language];
+  }
+
+  // Drop the last locale part one by one, e.g. `zh-Hant-TW` -> `zh-Hant` -> `zh`
+  const chain = [language];
+  for (let parent = language; /[-_]/.test(parent); ) {
+    parent = parent.replace(/[-_][^-_]*$/, '');
+    chain.push(parent);
+  }
+
+  return [...new Set([...chain, ...(fallback === true ? [DEFAULT_LANGUAGE] : fallback)])];
+}
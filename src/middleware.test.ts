@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+import { runMiddleware, type Middleware, type MiddlewareContext } from './middleware.js';
+
+const createContext = (): MiddlewareContext => ({
+  baseUrl: 'https://api.example.com',
+  endpoint: '/location/search',
+  payload: {},
+  method: 'GET',
+  headers: {},
+});
+
+describe('runMiddleware', () => {
+  it('should call the handler when there is no middleware', async () => {
+    const handler = vi.fn().mockResolvedValue('response');
+
+    await expect(runMiddleware([], createContext(), handler)).resolves.toBe('response');
+  });
+
+  it('should run middleware in order around the handler', async () => {
+    const calls: string[] = [];
+    const trace =
+      (name: string): Middleware =>
+      async (_context, next) => {
+        calls.push(`${name}:before`);
+        const result = await next();
+        calls.push(`${name}:after`);
+        return result;
+      };
+
+    await runMiddleware([trace('a'), trace('b')], createContext(), async () => {
+      calls.push('handler');
+    });
+
+    expect(calls).toEqual(['a:before', 'b:before', 'handler', 'b:after', 'a:after']);
+  });
+
+  it('should pass context changes to the handler', async () => {
+    const handler = vi.fn().mockResolvedValue(undefined);
+
+    await runMiddleware(
+      [
+        async (context, next) => {
+          context.endpoint = '/staging/location/search';
+          return next();
+        },
+      ],
+      createContext(),
+      handler
+    );
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ endpoint: '/staging/location/search' }));
+  });
+
+  it('should allow middleware to short-circuit', async () => {
+    const handler = vi.fn();
+
+    await expect(runMiddleware([async () => ({ data: [] })], createContext(), handler)).resolves.toEqual({ data: [] });
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
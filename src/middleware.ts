@@ -0,0 +1,55 @@
+/**
+ * Request context passed through the middleware chain
+ *
+ * Middleware may modify any field before calling `next()`; the URL is built from
+ * `baseUrl`, `endpoint` and `payload` once the chain reaches the network.
+ */
+export interface MiddlewareContext {
+  /** API base URL */
+  baseUrl: string;
+  /** Endpoint path, e.g. `/location/123/details` */
+  endpoint: string;
+  /** Validated request parameters */
+  payload: Record<string, unknown>;
+  /** HTTP method */
+  method: string;
+  /** Request headers */
+  headers: Record<string, string>;
+}
+
+/**
+ * Request middleware
+ *
+ * `next()` sends the request and resolves with the raw response body once API errors have been
+ * checked. The value returned by the middleware is validated against the response schema, so a
+ * middleware can post-process the body, or short-circuit by returning a body without calling `next()`.
+ *
+ * @example
+ * ```typescript
+ * client.use(async (context, next) => {
+ *   context.headers['X-Trace-Id'] = crypto.randomUUID();
+ *   return next();
+ * });
+ * ```
+ */
+export type Middleware = (context: MiddlewareContext, next: () => Promise<unknown>) => Promise<unknown>;
+
+/**
+ * Run a context through middleware in order, ending with the given handler
+ */
+export function runMiddleware(
+  middlewares: readonly Middleware[],
+  context: MiddlewareContext,
+  handler: (context: MiddlewareContext) => Promise<unknown>
+): Promise<unknown> {
+  const dispatch = (index: number): Promise<unknown> => {
+    const middleware = middlewares[index];
+    if (!middleware) {
+      return handler(context);
+    }
+
+    return middleware(context, () => dispatch(index + 1));
+  };
+
+  return dispatch(0);
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ValidationError } from './errors.js';
+import { paginate } from './pagination.js';
+
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+};
+
+const range = (start: number, count: number) => Array.from({ length: count }, (_, i) => start + i);
+
+describe('paginate', () => {
+  it('should fetch pages until a short page is returned', async () => {
+    const fetchPage = vi.fn((offset: number, limit: number) =>
+      Promise.resolve(range(offset, Math.min(limit, 7 - offset)))
+    );
+
+    const items = await collect(paginate(fetchPage, { pageSize: 3 }));
+
+    expect(items).toEqual(range(0, 7));
+    expect(fetchPage.mock.calls).toEqual([
+      [0, 3],
+      [3, 3],
+      [6, 3],
+    ]);
+  });
+
+  it('should stop after maxItems', async () => {
+    const fetchPage = vi.fn((offset: number, limit: number) => Promise.resolve(range(offset, limit)));
+
+    const items = await collect(paginate(fetchPage, { pageSize: 5, maxItems: 7 }));
+
+    expect(items).toEqual(range(0, 7));
+    expect(fetchPage.mock.calls).toEqual([
+      [0, 5],
+      [5, 2],
+    ]);
+  });
+
+  it('should use the expected total as an upper bound', async () => {
+    const fetchPage = vi.fn((offset: number, limit: number) => Promise.resolve(range(offset, limit)));
+
+    const items = await collect(paginate(fetchPage, { pageSize: 5, getTotal: () => Promise.resolve(5) }));
+
+    expect(items).toEqual(range(0, 5));
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore an unknown total', async () => {
+    const fetchPage = vi.fn(() => Promise.resolve([]));
+
+    const items = await collect(paginate(fetchPage, { getTotal: () => Promise.resolve(undefined) }));
+
+    expect(items).toEqual([]);
+    expect(fetchPage).toHaveBeenCalledWith(0, 5);
+  });
+
+  it('should not yield more items than requested per page', async () => {
+    const fetchPage = vi.fn(() => Promise.resolve(range(0, 10)));
+
+    const items = await collect(paginate(fetchPage, { pageSize: 2, maxItems: 2 }));
+
+    expect(items).toEqual([0, 1]);
+  });
+
+  it('should reject an invalid page size', async () => {
+    await expect(collect(paginate(() => Promise.resolve([]), { pageSize: 0 }))).rejects.toThrow(ValidationError);
+  });
+
+  it('should reject a page size above the API maximum', async () => {
+    const fetchPage = vi.fn(() => Promise.resolve(range(0, 5)));
+
+    await expect(collect(paginate(fetchPage, { pageSize: 10 }))).rejects.toThrow(
+      'Invalid page size: 10 (the API returns at most 5 items per page)'
+    );
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,80 @@
+import { ValidationError } from './errors.js';
+
+/**
+ * Default page size (the Content API returns at most 5 reviews or photos per request)
+ */
+export const DEFAULT_PAGE_SIZE = 5;
+
+/**
+ * Pagination options
+ */
+export interface PaginationOptions {
+  /** Number of items requested per page, at most `DEFAULT_PAGE_SIZE` */
+  pageSize?: number;
+  /** Maximum number of items to yield in total */
+  maxItems?: number;
+  /** Language in which to return results */
+  language?: string;
+  /** Fetch the location details first and use its total count as the expected total */
+  useDetailsTotal?: boolean;
+}
+
+/**
+ * Options for the generic paginator
+ */
+export interface PaginateOptions {
+  pageSize?: number;
+  maxItems?: number;
+  /** Resolves the expected total number of items, if known */
+  getTotal?: () => Promise<number | undefined>;
+}
+
+/**
+ * Fetch a single page of items
+ */
+export type PageFetcher<T> = (offset: number, limit: number) => Promise<T[]>;
+
+/**
+ * Iterate over an offset-based endpoint page by page
+ *
+ * Stops when a page is shorter than requested, or when `maxItems` or the expected total is reached.
+ * Larger page sizes than the API returns are rejected, as their pages would look short.
+ *
+ * @param fetchPage - Function fetching one page at the given offset
+ * @param options - Pagination options
+ */
+export async function* paginate<T>(fetchPage: PageFetcher<T>, options: PaginateOptions = {}): AsyncGenerator<T> {
+  const { pageSize = DEFAULT_PAGE_SIZE, maxItems = Infinity, getTotal } = options;
+
+  if (!Number.isInteger(pageSize) || pageSize <= 0) {
+    throw new ValidationError(`Invalid page size: ${pageSize}`);
+  }
+  if (pageSize > DEFAULT_PAGE_SIZE) {
+    throw new ValidationError(
+      `Invalid page size: ${pageSize} (the API returns at most ${DEFAULT_PAGE_SIZE} items per page)`
+    );
+  }
+
+  let remaining = maxItems;
+  if (getTotal) {
+    const total = await getTotal();
+    if (total !== undefined) {
+      remaining = Math.min(remaining, total);
+    }
+  }
+
+  let offset = 0;
+  while (offset < remaining) {
+    const limit = Math.min(pageSize, remaining - offset);
+    const page = await fetchPage(offset, limit);
+
+    for (const item of page.slice(0, limit)) {
+      yield item;
+    }
+
+    offset += page.length;
+    if (page.length < limit) {
+      return;
+    }
+  }
+}
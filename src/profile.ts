@@ -0,0 +1,32 @@
+import type { SettledResult } from './batch.js';
+import type { LocationDetailsResponse } from './types/details.js';
+import type { LocationPhotosData, LocationPhotosPayload } from './types/photos.js';
+import type { LocationReviewsPayload, LocationReviewsResult } from './types/reviews.js';
+
+/**
+ * Location profile request parameters
+ */
+export interface LocationProfileOptions {
+  /** Language of all sections */
+  language?: string;
+  /** Currency of the location details */
+  currency?: string;
+  /** Reviews request parameters */
+  reviews?: Omit<LocationReviewsPayload, 'language'>;
+  /** Photos request parameters */
+  photos?: Omit<LocationPhotosPayload, 'language'>;
+}
+
+/**
+ * Location details, reviews and photos, each with its own success or failure
+ */
+export interface LocationProfile<
+  TDetails = LocationDetailsResponse,
+  TReview = LocationReviewsResult,
+  TPhoto = LocationPhotosData,
+> {
+  locationId: string;
+  details: SettledResult<TDetails>;
+  reviews: SettledResult<TReview[]>;
+  photos: SettledResult<TPhoto[]>;
+}
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConfigurationError } from './errors.js';
+import { RateLimiter } from './rate-limiter.js';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should let a burst of requests through immediately', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1, burst: 3 });
+    const resolved = vi.fn();
+
+    await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]).then(resolved);
+
+    expect(resolved).toHaveBeenCalled();
+    expect(limiter.getStats()).toMatchObject({ queueDepth: 0, availableTokens: 0, totalRequests: 3, maxWaitMs: 0 });
+  });
+
+  it('should queue requests beyond the burst until tokens are refilled', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2, burst: 1 });
+    const order: number[] = [];
+
+    const requests = [1, 2, 3].map(id => limiter.acquire().then(() => order.push(id)));
+    await Promise.resolve();
+
+    expect(order).toEqual([1]);
+    expect(limiter.getStats().queueDepth).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(order).toEqual([1, 2]);
+
+    await vi.advanceTimersByTimeAsync(500);
+    await Promise.all(requests);
+    expect(order).toEqual([1, 2, 3]);
+
+    const stats = limiter.getStats();
+    expect(stats.queueDepth).toBe(0);
+    expect(stats.lastWaitMs).toBe(1000);
+    expect(stats.maxWaitMs).toBe(1000);
+    expect(stats.averageWaitMs).toBe(500);
+  });
+
+  it('should remove aborted requests from the queue without using a token', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1, burst: 1 });
+    const controller = new AbortController();
+
+    await limiter.acquire();
+    const aborted = limiter.acquire(controller.signal);
+    const next = limiter.acquire();
+    controller.abort(new Error('Cancelled'));
+
+    await expect(aborted).rejects.toThrow('Cancelled');
+    expect(limiter.getStats().queueDepth).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await next;
+    expect(limiter.getStats()).toMatchObject({ queueDepth: 0, totalRequests: 2, lastWaitMs: 1000 });
+  });
+
+  it('should reject immediately when the signal is already aborted', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1 });
+
+    await expect(limiter.acquire(AbortSignal.abort(new Error('Cancelled')))).rejects.toThrow('Cancelled');
+    expect(limiter.getStats()).toMatchObject({ availableTokens: 1, totalRequests: 0 });
+  });
+
+  it('should not accumulate more tokens than the burst', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 10 });
+
+    vi.advanceTimersByTime(10000);
+
+    expect(limiter.getStats().availableTokens).toBe(10);
+  });
+
+  it('should report empty statistics before any request', () => {
+    expect(new RateLimiter({ requestsPerSecond: 0.5 }).getStats()).toEqual({
+      queueDepth: 0,
+      availableTokens: 1,
+      totalRequests: 0,
+      lastWaitMs: 0,
+      averageWaitMs: 0,
+      maxWaitMs: 0,
+    });
+  });
+
+  it('should reject invalid configuration', () => {
+    expect(() => new RateLimiter({ requestsPerSecond: 0 })).toThrow(ConfigurationError);
+    expect(() => new RateLimiter({ requestsPerSecond: 1, burst: 0 })).toThrow(ConfigurationError);
+  });
+});
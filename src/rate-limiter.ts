@@ -0,0 +1,143 @@
+import { ConfigurationError } from './errors.js';
+
+/**
+ * Rate limit configuration
+ */
+export interface RateLimitConfig {
+  /** Sustained number of requests per second */
+  requestsPerSecond: number;
+  /** Maximum number of requests sent at once after an idle period (default: `requestsPerSecond`, at least 1) */
+  burst?: number;
+}
+
+/**
+ * Rate limiter statistics
+ */
+export interface RateLimiterStats {
+  /** Number of requests waiting for a token */
+  queueDepth: number;
+  /** Number of tokens currently available */
+  availableTokens: number;
+  /** Number of requests that went through the limiter */
+  totalRequests: number;
+  /** Time the last request waited in the queue, in milliseconds */
+  lastWaitMs: number;
+  /** Average time requests waited in the queue, in milliseconds */
+  averageWaitMs: number;
+  /** Longest time a request waited in the queue, in milliseconds */
+  maxWaitMs: number;
+}
+
+/**
+ * Token bucket rate limiter
+ *
+ * Requests that exceed the rate are queued in FIFO order instead of failing.
+ */
+export class RateLimiter {
+  private requestsPerSecond: number;
+  private burst: number;
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Array<{ resolve: () => void; enqueuedAt: number }> = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private totalRequests = 0;
+  private totalWaitMs = 0;
+  private lastWaitMs = 0;
+  private maxWaitMs = 0;
+
+  constructor(config: RateLimitConfig) {
+    const { requestsPerSecond, burst = Math.max(1, requestsPerSecond) } = config;
+
+    if (!(requestsPerSecond > 0)) {
+      throw new ConfigurationError('Rate limit requestsPerSecond must be greater than 0');
+    }
+    if (!(burst >= 1)) {
+      throw new ConfigurationError('Rate limit burst must be at least 1');
+    }
+
+    this.requestsPerSecond = requestsPerSecond;
+    this.burst = burst;
+    this.tokens = burst;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait until a request may be sent
+   *
+   * @param signal - Signal to stop waiting; an aborted request leaves the queue without using a token
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        this.queue.splice(this.queue.indexOf(entry), 1);
+        reject(signal?.reason);
+      };
+      const entry = {
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        enqueuedAt: Date.now(),
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(entry);
+      this.drain();
+    });
+  }
+
+  /**
+   * Get limiter statistics
+   */
+  getStats(): RateLimiterStats {
+    this.refill();
+    return {
+      queueDepth: this.queue.length,
+      availableTokens: Math.floor(this.tokens),
+      totalRequests: this.totalRequests,
+      lastWaitMs: this.lastWaitMs,
+      averageWaitMs: this.totalRequests ? this.totalWaitMs / this.totalRequests : 0,
+      maxWaitMs: this.maxWaitMs,
+    };
+  }
+
+  /**
+   * Add the tokens earned since the last refill
+   */
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.requestsPerSecond);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Release queued requests while tokens are available, then schedule the next release
+   */
+  private drain(): void {
+    this.refill();
+
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      const { resolve, enqueuedAt } = this.queue.shift()!;
+      const waitMs = Date.now() - enqueuedAt;
+
+      this.totalRequests++;
+      this.totalWaitMs += waitMs;
+      this.lastWaitMs = waitMs;
+      this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+      resolve();
+    }
+
+    if (this.queue.length > 0 && !this.timer) {
+      const waitMs = Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.drain();
+      }, waitMs);
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { HttpError, NetworkError, ValidationError } from './errors.js';
+import {
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  isRetryable,
+  parseRetryAfter,
+  type ResolvedRetryPolicy,
+} from './retry.js';
+
+const policy: ResolvedRetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  maxAttempts: 4,
+  baseDelay: 100,
+  jitter: false,
+};
+
+describe('isRetryable', () => {
+  it('should retry network errors and retryable status codes', () => {
+    expect(isRetryable(new NetworkError('fetch failed'), 1, policy)).toBe(true);
+    expect(isRetryable(HttpError.fromStatus(503, 'unavailable'), 1, policy)).toBe(true);
+    expect(isRetryable(HttpError.fromStatus(429, 'too many requests'), 1, policy)).toBe(true);
+  });
+
+  it('should not retry other errors', () => {
+    expect(isRetryable(HttpError.fromStatus(401, 'unauthorized'), 1, policy)).toBe(false);
+    expect(isRetryable(HttpError.fromStatus(501, 'not implemented'), 1, policy)).toBe(false);
+    expect(isRetryable(new ValidationError('Invalid response format: failed to fetch'), 1, policy)).toBe(false);
+  });
+
+  it('should stop after the maximum number of attempts', () => {
+    expect(isRetryable(new NetworkError('fetch failed'), 4, policy)).toBe(false);
+  });
+
+  it('should not retry errors with a Retry-After above the maximum delay', () => {
+    const error = (retryAfter: string) =>
+      HttpError.fromStatus(429, 'too many requests', { headers: new Headers({ 'Retry-After': retryAfter }) });
+
+    expect(isRetryable(error('86400'), 1, policy)).toBe(false);
+    expect(isRetryable(error('86400'), 1, { ...policy, shouldRetry: () => true })).toBe(false);
+    expect(isRetryable(error('30'), 1, policy)).toBe(true);
+  });
+
+  it('should use a custom predicate', () => {
+    const shouldRetry = vi.fn(() => true);
+
+    expect(isRetryable(new ValidationError('invalid'), 2, { ...policy, shouldRetry })).toBe(true);
+    expect(shouldRetry).toHaveBeenCalledWith(expect.any(ValidationError), 2);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse delays in seconds', () => {
+    expect(parseRetryAfter(new Headers({ 'Retry-After': '2' }))).toBe(2000);
+    expect(parseRetryAfter(new Headers({ 'Retry-After': '0.5' }))).toBe(500);
+  });
+
+  it('should parse HTTP dates', () => {
+    const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+
+    expect(parseRetryAfter(new Headers({ 'Retry-After': 'Wed, 21 Oct 2026 07:28:03 GMT' }), now)).toBe(3000);
+    expect(parseRetryAfter(new Headers({ 'Retry-After': 'Wed, 21 Oct 2026 07:27:00 GMT' }), now)).toBe(0);
+  });
+
+  it('should ignore missing or invalid values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter(new Headers())).toBeUndefined();
+    expect(parseRetryAfter(new Headers({ 'Retry-After': 'soon' }))).toBeUndefined();
+  });
+});
+
+describe('getRetryDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should back off exponentially up to the maximum delay', () => {
+    const error = new NetworkError('fetch failed');
+
+    expect(getRetryDelay(error, 1, policy)).toBe(100);
+    expect(getRetryDelay(error, 3, policy)).toBe(400);
+    expect(getRetryDelay(error, 20, policy)).toBe(30000);
+  });
+
+  it('should apply full jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.25);
+
+    expect(getRetryDelay(new NetworkError('fetch failed'), 3, { ...policy, jitter: true })).toBe(100);
+  });
+
+  it('should honor Retry-After', () => {
+    const error = HttpError.fromStatus(429, 'too many requests', { headers: new Headers({ 'Retry-After': '7' }) });
+
+    expect(getRetryDelay(error, 1, policy)).toBe(7000);
+  });
+});
@@ -0,0 +1,98 @@
+import { HttpError, NetworkError } from './errors.js';
+
+/**
+ * Retry policy
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts, including the first one (default: `retries + 1`) */
+  maxAttempts?: number;
+  /** Base delay in milliseconds, doubled after each attempt (default: `retryDelay`) */
+  baseDelay?: number;
+  /** Maximum delay in milliseconds between attempts; errors with a longer `Retry-After` are not retried (default: `30000`) */
+  maxDelay?: number;
+  /** Use full jitter, i.e. a random delay between 0 and the exponential delay (default: `true`) */
+  jitter?: boolean;
+  /** HTTP status codes that are retried (default: `[408, 429, 500, 502, 503, 504]`) */
+  retryableStatusCodes?: number[];
+  /** Decide whether an error is retried, replacing the default decision */
+  shouldRetry?: (error: Error, attempt: number) => boolean;
+  /** Called before waiting for the next attempt */
+  onRetry?: (error: Error, attempt: number, delay: number) => void;
+}
+
+/**
+ * Retry policy with all defaults applied
+ */
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'shouldRetry' | 'onRetry'>> &
+  Pick<RetryPolicy, 'shouldRetry' | 'onRetry'>;
+
+/**
+ * Default retry policy values that do not depend on the client configuration
+ */
+export const DEFAULT_RETRY_POLICY = {
+  maxDelay: 30000,
+  jitter: true,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+};
+
+/**
+ * Determine if an error should be retried
+ *
+ * Network errors and HTTP errors with a retryable status code are retried, unless a custom
+ * `shouldRetry` predicate is given. Errors asking to wait longer than `maxDelay` with `Retry-After`,
+ * such as an exhausted daily quota, are never retried.
+ *
+ * @param attempt - Number of attempts made so far
+ */
+export function isRetryable(error: Error, attempt: number, policy: ResolvedRetryPolicy): boolean {
+  if (attempt >= policy.maxAttempts) {
+    return false;
+  }
+  const retryAfter = error instanceof HttpError ? parseRetryAfter(error.headers) : undefined;
+  if (retryAfter !== undefined && retryAfter > policy.maxDelay) {
+    return false;
+  }
+  if (policy.shouldRetry) {
+    return policy.shouldRetry(error, attempt);
+  }
+  if (error instanceof NetworkError) {
+    return true;
+  }
+  return error instanceof HttpError && policy.retryableStatusCodes.includes(error.status);
+}
+
+/**
+ * Parse a `Retry-After` header
+ *
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(headers: Headers | undefined, now = Date.now()): number | undefined {
+  const value = headers?.get('retry-after')?.trim();
+  if (!value) {
+    return undefined;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Number(value) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Compute the delay before the next attempt
+ *
+ * A `Retry-After` header on the error takes precedence over the exponential backoff.
+ *
+ * @param attempt - Number of attempts made so far
+ */
+export function getRetryDelay(error: Error, attempt: number, policy: ResolvedRetryPolicy): number {
+  const retryAfter = error instanceof HttpError ? parseRetryAfter(error.headers) : undefined;
+  if (retryAfter !== undefined) {
+    return retryAfter;
+  }
+
+  const delay = Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, attempt - 1));
+  return policy.jitter ? Math.random() * delay : delay;
+}
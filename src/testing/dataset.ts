@@ -0,0 +1,314 @@
+import type {
+  LocationDetailsAttractionResponse,
+  LocationDetailsGeosResponse,
+  LocationDetailsHotelResponse,
+  LocationDetailsResponse,
+  LocationDetailsRestaurantResponse,
+} from '../types/details.js';
+import type { LocationPhotosData } from '../types/photos.js';
+import type { LocationReviewsResult } from '../types/reviews.js';
+
+/**
+ * Location served by the fake API, with its reviews and photos
+ */
+export interface FakeLocation {
+  details: LocationDetailsResponse;
+  reviews: LocationReviewsResult[];
+  photos: LocationPhotosData[];
+}
+
+const PARIS_ADDRESS = {
+  city: 'Paris',
+  state: 'Ile-de-France',
+  country: 'France',
+};
+
+const PARIS_ANCESTORS = [
+  { level: 'City', name: 'Paris', location_id: '187147' },
+  { level: 'Region', name: 'Ile-de-France', location_id: '187144' },
+  { level: 'Country', name: 'France', location_id: '187070' },
+];
+
+const TRIP_TYPES = [
+  { name: 'business', localized_name: 'Business', value: '12' },
+  { name: 'couples', localized_name: 'Couples', value: '148' },
+  { name: 'family', localized_name: 'Family', value: '61' },
+];
+
+const paris: LocationDetailsGeosResponse = {
+  location_id: '187147',
+  name: 'Paris',
+  web_url: 'https://www.tripadvisor.com/Tourism-g187147-Paris_Ile_de_France-Vacations.html',
+  description: 'The capital of France, on the Seine.',
+  address_obj: { ...PARIS_ADDRESS, address_string: 'Paris, Ile-de-France, France' },
+  ancestors: PARIS_ANCESTORS.slice(1),
+  latitude: '48.857037',
+  longitude: '2.349401',
+  timezone: 'Europe/Paris',
+  photo_count: '2',
+  see_all_photos: 'https://www.tripadvisor.com/Tourism-g187147-m66827#photos',
+  category: { name: 'geographic', localized_name: 'Geographic' },
+  subcategory: [{ name: 'city', localized_name: 'City' }],
+  neighborhood_info: [],
+  awards: [],
+};
+
+const eiffelTower: LocationDetailsAttractionResponse = {
+  location_id: '188151',
+  name: 'Eiffel Tower',
+  web_url: 'https://www.tripadvisor.com/Attraction_Review-g187147-d188151-Reviews-Eiffel_Tower-Paris.html',
+  description: 'Wrought-iron lattice tower on the Champ de Mars.',
+  address_obj: {
+    ...PARIS_ADDRESS,
+    street1: 'Avenue Anatole France',
+    postalcode: '75007',
+    address_string: 'Avenue Anatole France, 75007 Paris France',
+  },
+  ancestors: PARIS_ANCESTORS,
+  latitude: '48.858353',
+  longitude: '2.294464',
+  timezone: 'Europe/Paris',
+  website: 'https://www.toureiffel.paris',
+  write_review: 'https://www.tripadvisor.com/UserReview-g187147-d188151-Eiffel_Tower-Paris.html',
+  ranking_data: {
+    geo_location_id: '187147',
+    ranking_string: '#3 of 3,927 things to do in Paris',
+    geo_location_name: 'Paris',
+    ranking_out_of: '3927',
+    ranking: '3',
+  },
+  rating: '4.5',
+  rating_image_url: 'https://www.tripadvisor.com/img/cdsi/img2/ratings/traveler/4.5-66827-5.svg',
+  num_reviews: '3',
+  review_rating_count: { '1': '0', '2': '0', '3': '1', '4': '0', '5': '2' },
+  photo_count: '2',
+  see_all_photos: 'https://www.tripadvisor.com/Attraction_Review-g187147-d188151-m66827#photos',
+  category: { name: 'attraction', localized_name: 'Attraction' },
+  subcategory: [{ name: 'landmarks', localized_name: 'Sights & Landmarks' }],
+  neighborhood_info: [{ location_id: '15621145', name: '7th Arr. - Palais-Bourbon' }],
+  awards: [
+    {
+      award_type: "Travelers' Choice",
+      year: '2025',
+      images: { small: 'https://static.tacdn.com/img2/travelers_choice/2025/TC_small.jpg' },
+      categories: [],
+      display_name: "Travelers' Choice",
+    },
+  ],
+  hours: {
+    periods: [0, 1, 2, 3, 4, 5, 6].map(day => ({
+      open: { day, time: '0930' },
+      close: { day, time: '2345' },
+    })),
+    weekday_text: [
+      'Monday: 09:30 - 23:45',
+      'Tuesday: 09:30 - 23:45',
+      'Wednesday: 09:30 - 23:45',
+      'Thursday: 09:30 - 23:45',
+      'Friday: 09:30 - 23:45',
+      'Saturday: 09:30 - 23:45',
+      'Sunday: 09:30 - 23:45',
+    ],
+  },
+  groups: [
+    {
+      name: 'Sights & Landmarks',
+      localized_name: 'Sights & Landmarks',
+      categories: [{ name: 'Observation Decks & Towers', localized_name: 'Observation Decks & Towers' }],
+    },
+  ],
+  trip_types: TRIP_TYPES,
+};
+
+const leftBankHotel: LocationDetailsHotelResponse = {
+  location_id: '197528',
+  name: 'Left Bank Grand Hotel',
+  web_url: 'https://www.tripadvisor.com/Hotel_Review-g187147-d197528-Reviews-Left_Bank_Grand_Hotel-Paris.html',
+  description: 'Art Deco palace hotel on the Left Bank.',
+  address_obj: {
+    ...PARIS_ADDRESS,
+    street1: '12 Rue Jacob',
+    postalcode: '75006',
+    address_string: '12 Rue Jacob, 75006 Paris France',
+  },
+  ancestors: PARIS_ANCESTORS,
+  latitude: '48.85117',
+  longitude: '2.326953',
+  timezone: 'Europe/Paris',
+  phone: '+33 1 49 54 46 00',
+  website: 'https://www.leftbankgrand.com',
+  ranking_data: {
+    geo_location_id: '187147',
+    ranking_string: '#12 of 1,832 hotels in Paris',
+    geo_location_name: 'Paris',
+    ranking_out_of: '1832',
+    ranking: '12',
+  },
+  rating: '5.0',
+  rating_image_url: 'https://www.tripadvisor.com/img/cdsi/img2/ratings/traveler/5.0-66827-5.svg',
+  num_reviews: '2',
+  review_rating_count: { '1': '0', '2': '0', '3': '0', '4': '0', '5': '2' },
+  subratings: {
+    '0': { name: 'rate_location', localized_name: 'Location', value: '4.8' },
+    '1': { name: 'rate_sleep', localized_name: 'Sleep Quality', value: '4.9' },
+    '2': { name: 'rate_room', localized_name: 'Rooms', value: '4.9' },
+    '3': { name: 'rate_service', localized_name: 'Service', value: '4.8' },
+    '4': { name: 'rate_value', localized_name: 'Value', value: '4.5' },
+    '5': { name: 'rate_cleanliness', localized_name: 'Cleanliness', value: '4.9' },
+  },
+  photo_count: '1',
+  price_level: '$$$$',
+  category: { name: 'hotel', localized_name: 'Hotel' },
+  subcategory: [{ name: 'hotel', localized_name: 'Hotel' }],
+  neighborhood_info: [{ location_id: '15621144', name: '6th Arr. - Luxembourg' }],
+  awards: [],
+  amenities: ['Free Internet', 'Pool', 'Spa', 'Restaurant'],
+  parent_brand: 'Independent',
+  brand: 'Left Bank Grand Hotel',
+  styles: ['Luxury', 'Classic'],
+  trip_types: TRIP_TYPES,
+};
+
+const cornerCafe: LocationDetailsRestaurantResponse = {
+  location_id: '719291',
+  name: 'Corner Cafe',
+  web_url: 'https://www.tripadvisor.com/Restaurant_Review-g187147-d719291-Reviews-Corner_Cafe-Paris.html',
+  address_obj: {
+    ...PARIS_ADDRESS,
+    street1: '8 Rue Jacob',
+    postalcode: '75006',
+    address_string: '8 Rue Jacob, 75006 Paris France',
+  },
+  ancestors: PARIS_ANCESTORS,
+  latitude: '48.854107',
+  longitude: '2.332655',
+  timezone: 'Europe/Paris',
+  phone: '+33 1 45 48 55 26',
+  rating: '4.0',
+  num_reviews: '1',
+  review_rating_count: { '1': '0', '2': '0', '3': '0', '4': '1', '5': '0' },
+  photo_count: '0',
+  price_level: '$$ - $$$',
+  category: { name: 'restaurant', localized_name: 'Restaurant' },
+  subcategory: [{ name: 'cafe', localized_name: 'Cafe' }],
+  neighborhood_info: [{ location_id: '15621144', name: '6th Arr. - Luxembourg' }],
+  awards: [],
+  hours: {
+    periods: [0, 1, 2, 3, 4, 5, 6].map(day => ({
+      open: { day, time: '0730' },
+      close: { day: (day + 1) % 7, time: '0130' },
+    })),
+    weekday_text: [
+      'Monday: 07:30 - 01:30',
+      'Tuesday: 07:30 - 01:30',
+      'Wednesday: 07:30 - 01:30',
+      'Thursday: 07:30 - 01:30',
+      'Friday: 07:30 - 01:30',
+      'Saturday: 07:30 - 01:30',
+      'Sunday: 07:30 - 01:30',
+    ],
+  },
+  features: ['Outdoor Seating', 'Serves Alcohol', 'Table Service'],
+  cuisine: [
+    { name: 'french', localized_name: 'French' },
+    { name: 'cafe', localized_name: 'Cafe' },
+  ],
+  trip_types: TRIP_TYPES,
+};
+
+/**
+ * Build a review of a dataset location
+ */
+function review(
+  locationId: string,
+  id: string,
+  rating: number,
+  title: string,
+  publishedDate: string,
+  username: string
+): LocationReviewsResult {
+  return {
+    id,
+    lang: 'en',
+    location_id: locationId,
+    published_date: publishedDate,
+    rating: String(rating),
+    helpful_votes: 0,
+    rating_image_url: `https://www.tripadvisor.com/img/cdsi/img2/ratings/traveler/s${rating}.0.svg`,
+    url: `https://www.tripadvisor.com/ShowUserReviews-g187147-d${locationId}-r${id}.html`,
+    text: `${title}. Would recommend.`,
+    title,
+    trip_type: 'Couples',
+    travel_date: publishedDate.slice(0, 7),
+    user: {
+      username,
+      user_location: { id: '187147', location: 'Paris, France' },
+      review_count: 12,
+    },
+  };
+}
+
+/**
+ * Build a photo of a dataset location
+ */
+function photo(
+  id: string,
+  caption: string,
+  publishedDate: string,
+  source: 'Traveler' | 'Management'
+): LocationPhotosData {
+  const url = `https://media-cdn.tripadvisor.com/media/photo-o/${id}.jpg`;
+
+  return {
+    id,
+    is_blessed: source === 'Management',
+    album: 'Other',
+    caption,
+    published_date: publishedDate,
+    images: {
+      thumbnail: { url, width: 50, height: 50 },
+      large: { url, width: 550, height: 412 },
+      original: { url, width: 2000, height: 1500 },
+    },
+    source: { name: source, localized_name: source },
+  };
+}
+
+/**
+ * Default dataset of the fake API: Paris, an attraction, a hotel and a restaurant
+ */
+export const DEFAULT_FAKE_LOCATIONS: readonly FakeLocation[] = [
+  {
+    details: paris,
+    reviews: [],
+    photos: [
+      photo('2a1b3c', 'Seine at dusk', '2025-04-02T10:12:00.000Z', 'Traveler'),
+      photo('2a1b3d', 'Rooftops of Paris', '2025-05-19T08:40:00.000Z', 'Traveler'),
+    ],
+  },
+  {
+    details: eiffelTower,
+    reviews: [
+      review('188151', '1001', 5, 'Unforgettable view', '2025-06-01T18:00:00.000Z', 'wanderer42'),
+      review('188151', '1002', 5, 'Worth the queue', '2025-05-12T09:30:00.000Z', 'cityBreaker'),
+      review('188151', '1003', 3, 'Very crowded', '2025-04-20T14:15:00.000Z', 'slowTraveler'),
+    ],
+    photos: [
+      photo('2b1c3d', 'Tower from across the river', '2025-06-03T07:00:00.000Z', 'Traveler'),
+      photo('2b1c3e', 'Summit at night', '2025-03-11T21:30:00.000Z', 'Management'),
+    ],
+  },
+  {
+    details: leftBankHotel,
+    reviews: [
+      review('197528', '2001', 5, 'Impeccable service', '2025-06-10T12:00:00.000Z', 'leftBanker'),
+      review('197528', '2002', 5, 'Beautiful rooms', '2025-02-08T16:45:00.000Z', 'artDecoFan'),
+    ],
+    photos: [photo('2c1d3e', 'Lobby', '2024-11-23T09:00:00.000Z', 'Management')],
+  },
+  {
+    details: cornerCafe,
+    reviews: [review('719291', '3001', 4, 'Classic Parisian cafe', '2025-05-30T08:20:00.000Z', 'morningCoffee')],
+    photos: [],
+  },
+];
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { ValidationError } from '../errors.js';
+import { LocationDetailsCategoryResponseSchemas } from '../types/details.js';
+import { LocationNearbySearchResponseDataSchema } from '../types/nearby.js';
+import { LocationPhotosDataSchema } from '../types/photos.js';
+import { LocationReviewsDataSchema } from '../types/reviews.js';
+import { LocationSearchResponseDataSchema } from '../types/search.js';
+import {
+  fakeAttractionDetails,
+  fakeGeoDetails,
+  fakeHotelDetails,
+  fakeNearbySearchResult,
+  fakePhoto,
+  fakeRestaurantDetails,
+  fakeReview,
+  fakeSearchResult,
+} from './factories.js';
+
+const factories = [
+  { name: 'fakeHotelDetails', create: fakeHotelDetails, schema: LocationDetailsCategoryResponseSchemas.hotels },
+  {
+    name: 'fakeAttractionDetails',
+    create: fakeAttractionDetails,
+    schema: LocationDetailsCategoryResponseSchemas.attractions,
+  },
+  {
+    name: 'fakeRestaurantDetails',
+    create: fakeRestaurantDetails,
+    schema: LocationDetailsCategoryResponseSchemas.restaurants,
+  },
+  { name: 'fakeGeoDetails', create: fakeGeoDetails, schema: LocationDetailsCategoryResponseSchemas.geos },
+  { name: 'fakeSearchResult', create: fakeSearchResult, schema: LocationSearchResponseDataSchema },
+  { name: 'fakeNearbySearchResult', create: fakeNearbySearchResult, schema: LocationNearbySearchResponseDataSchema },
+  { name: 'fakeReview', create: fakeReview, schema: LocationReviewsDataSchema },
+  { name: 'fakePhoto', create: fakePhoto, schema: LocationPhotosDataSchema },
+];
+
+describe('fake data factories', () => {
+  describe.each(factories)('$name', ({ create, schema }) => {
+    it('should match the response schema for any seed', () => {
+      for (let seed = 0; seed < 50; seed++) {
+        const value = create({}, { seed });
+
+        expect(schema.strict().safeParse(value).error?.issues).toBeUndefined();
+      }
+    });
+
+    it('should be deterministic for a given seed', () => {
+      expect(create({}, { seed: 42 })).toEqual(create({}, { seed: 42 }));
+      expect(create()).toEqual(create({}, { seed: 1 }));
+    });
+
+    it('should vary with the seed', () => {
+      expect(create({}, { seed: 1 })).not.toEqual(create({}, { seed: 2 }));
+    });
+  });
+
+  it('should apply overrides', () => {
+    const hotel = fakeHotelDetails({ name: 'Seaside Hotel', amenities: ['Pool'] }, { seed: 7 });
+
+    expect(hotel).toMatchObject({ name: 'Seaside Hotel', amenities: ['Pool'] });
+    expect(hotel.location_id).toBe(fakeHotelDetails({}, { seed: 7 }).location_id);
+  });
+
+  it('should keep related fields consistent', () => {
+    const review = fakeReview({}, { seed: 3 });
+    const restaurant = fakeRestaurantDetails({}, { seed: 3 });
+
+    expect(review.url).toContain(`d${review.location_id}-r${review.id}`);
+    expect(review.travel_date).toBe(review.published_date.slice(0, 7));
+    expect(restaurant.category).toEqual({ name: 'restaurant', localized_name: 'Restaurant' });
+    expect(restaurant.hours?.periods).toHaveLength(7);
+  });
+
+  it('should reject overrides that do not match the schema', () => {
+    expect(() => fakePhoto({ is_blessed: 'yes' as never })).toThrow(ValidationError);
+    expect(() => fakeReview({ rating: 5 as never })).toThrow('Invalid fake data');
+  });
+});
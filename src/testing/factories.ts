@@ -0,0 +1,506 @@
+import type { z } from 'zod';
+import { ValidationError } from '../errors.js';
+import type { TripAdvisorCategory } from '../types/common.js';
+import {
+  LocationDetailsAttractionResponseSchema,
+  LocationDetailsGeosResponseSchema,
+  LocationDetailsHotelResponseSchema,
+  LocationDetailsRestaurantResponseSchema,
+  type LocationDetailsAttractionResponse,
+  type LocationDetailsGeosResponse,
+  type LocationDetailsHotelResponse,
+  type LocationDetailsRestaurantResponse,
+} from '../types/details.js';
+import { LocationNearbySearchResponseDataSchema, type LocationNearbySearchResult } from '../types/nearby.js';
+import { LocationPhotosDataSchema, type LocationPhotosData } from '../types/photos.js';
+import { LocationReviewsDataSchema, type LocationReviewsResult } from '../types/reviews.js';
+import { LocationSearchResponseDataSchema, type LocationSearchResult } from '../types/search.js';
+
+/**
+ * Fake data options
+ */
+export interface FakeOptions {
+  /** Seed of the generated values; the same seed always gives the same object (default: 1) */
+  seed?: number;
+}
+
+const DEFAULT_SEED = 1;
+
+const CITIES = [
+  {
+    city: 'Lisbon',
+    state: 'Lisbon District',
+    country: 'Portugal',
+    locationId: '189158',
+    latitude: 38.7223,
+    longitude: -9.1393,
+    timezone: 'Europe/Lisbon',
+  },
+  {
+    city: 'Chicago',
+    state: 'Illinois',
+    country: 'United States',
+    locationId: '35805',
+    latitude: 41.8781,
+    longitude: -87.6298,
+    timezone: 'America/Chicago',
+  },
+  {
+    city: 'Sydney',
+    state: 'New South Wales',
+    country: 'Australia',
+    locationId: '255060',
+    latitude: -33.8688,
+    longitude: 151.2093,
+    timezone: 'Australia/Sydney',
+  },
+  {
+    city: 'Barcelona',
+    state: 'Catalonia',
+    country: 'Spain',
+    locationId: '187497',
+    latitude: 41.3874,
+    longitude: 2.1686,
+    timezone: 'Europe/Madrid',
+  },
+] as const;
+
+const NAME_PREFIXES = ['Golden', 'Quiet', 'Harbor', 'Old Town', 'Riverside', 'Garden', 'Royal', 'Hidden'];
+
+const NAME_SUFFIXES: Record<Exclude<TripAdvisorCategory, 'geos'>, string[]> = {
+  hotels: ['Hotel', 'Inn', 'Suites', 'Lodge'],
+  attractions: ['Museum', 'Gardens', 'Tower', 'Market'],
+  restaurants: ['Bistro', 'Kitchen', 'Grill', 'Tavern'],
+};
+
+const STREETS = ['Main Street', 'Harbor Road', 'Market Square', 'Park Avenue', 'River Lane'];
+
+const REVIEW_TITLES = ['Great stay', 'Lovely experience', 'Would come back', 'Not as expected', 'Good value'];
+
+const REVIEW_SENTENCES = [
+  'The staff were friendly and helpful.',
+  'The location is perfect for exploring the city.',
+  'It was busier than we hoped.',
+  'Everything was clean and well kept.',
+  'We would recommend it to friends.',
+];
+
+const TRIP_TYPES = ['Business', 'Couples', 'Family', 'Friends', 'Solo'];
+
+const PHOTO_SOURCES = ['Traveler', 'Expert', 'Management'];
+
+const BEARINGS = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Start of the range of generated dates (2023-01-01)
+ */
+const DATE_RANGE_START = Date.UTC(2023, 0, 1);
+
+/**
+ * Length of the range of generated dates, in days
+ */
+const DATE_RANGE_DAYS = 3 * 365;
+
+/**
+ * Deterministic pseudo-random number generator (mulberry32)
+ */
+class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Get a number in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Get an integer in [min, max]
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * Pick an item of a list
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+
+  /**
+   * Pick distinct items of a list, in list order
+   */
+  sample<T>(items: readonly T[], count: number): T[] {
+    const picked = new Set<number>();
+    while (picked.size < Math.min(count, items.length)) {
+      picked.add(this.int(0, items.length - 1));
+    }
+    return items.filter((_item, index) => picked.has(index));
+  }
+
+  /**
+   * Get an ISO 8601 date in the generated date range
+   */
+  date(): string {
+    return new Date(DATE_RANGE_START + this.int(0, DATE_RANGE_DAYS * 24 * 60) * 60 * 1000).toISOString();
+  }
+}
+
+/**
+ * Generate a fake hotel details response
+ *
+ * @param overrides - Fields replacing the generated ones
+ * @param options - Fake data options
+ * @returns Hotel details matching `LocationDetailsHotelResponseSchema`
+ * @throws ValidationError if the overrides do not match the schema
+ *
+ * @example
+ * ```typescript
+ * const hotel = fakeHotelDetails({ name: 'Seaside Hotel' }, { seed: 42 });
+ * ```
+ */
+export function fakeHotelDetails(
+  overrides: Partial<LocationDetailsHotelResponse> = {},
+  options: FakeOptions = {}
+): LocationDetailsHotelResponse {
+  const random = new SeededRandom(options.seed ?? DEFAULT_SEED);
+
+  return checked(LocationDetailsHotelResponseSchema, {
+    ...fakeBaseDetails(random, 'hotels'),
+    amenities: random.sample(['Free Internet', 'Pool', 'Fitness Center', 'Restaurant', 'Bar', 'Spa', 'Parking'], 4),
+    parent_brand: random.pick(['Independent', 'Harbor Hotels Group']),
+    brand: random.pick(['Independent', 'Harbor Collection']),
+    styles: random.sample(['Budget', 'Mid-range', 'Luxury', 'Family', 'Business', 'Boutique'], 2),
+    trip_types: fakeTripTypes(random),
+    ...overrides,
+  });
+}
+
+/**
+ * Generate a fake attraction details response
+ *
+ * @param overrides - Fields replacing the generated ones
+ * @param options - Fake data options
+ * @returns Attraction details matching `LocationDetailsAttractionResponseSchema`
+ * @throws ValidationError if the overrides do not match the schema
+ */
+export function fakeAttractionDetails(
+  overrides: Partial<LocationDetailsAttractionResponse> = {},
+  options: FakeOptions = {}
+): LocationDetailsAttractionResponse {
+  const random = new SeededRandom(options.seed ?? DEFAULT_SEED);
+  const group = random.pick(['Sights & Landmarks', 'Museums', 'Nature & Parks']);
+
+  return checked(LocationDetailsAttractionResponseSchema, {
+    ...fakeBaseDetails(random, 'attractions'),
+    hours: fakeHours(random),
+    groups: [{ name: group, localized_name: group, categories: [{ name: group, localized_name: group }] }],
+    trip_types: fakeTripTypes(random),
+    ...overrides,
+  });
+}
+
+/**
+ * Generate a fake restaurant details response
+ *
+ * @param overrides - Fields replacing the generated ones
+ * @param options - Fake data options
+ * @returns Restaurant details matching `LocationDetailsRestaurantResponseSchema`
+ * @throws ValidationError if the overrides do not match the schema
+ */
+export function fakeRestaurantDetails(
+  overrides: Partial<LocationDetailsRestaurantResponse> = {},
+  options: FakeOptions = {}
+): LocationDetailsRestaurantResponse {
+  const random = new SeededRandom(options.seed ?? DEFAULT_SEED);
+
+  return checked(LocationDetailsRestaurantResponseSchema, {
+    ...fakeBaseDetails(random, 'restaurants'),
+    hours: fakeHours(random),
+    features: random.sample(['Reservations', 'Outdoor Seating', 'Takeout', 'Serves Alcohol', 'Table Service'], 3),
+    cuisine: random
+      .sample(['Italian', 'Seafood', 'Mediterranean', 'Vegetarian Friendly', 'Cafe'], 2)
+      .map(name => ({ name: name.toLowerCase(), localized_name: name })),
+    trip_types: fakeTripTypes(random),
+    ...overrides,
+  });
+}
+
+/**
+ * Generate a fake geographic location details response
+ *
+ * @param overrides - Fields replacing the generated ones
+ * @param options - Fake data options
+ * @returns Geographic location details matching `LocationDetailsGeosResponseSchema`
+ * @throws ValidationError if the overrides do not match the schema
+ */
+export function fakeGeoDetails(
+  overrides: Partial<LocationDetailsGeosResponse> = {},
+  options: FakeOptions = {}
+): LocationDetailsGeosResponse {
+  const random = new SeededRandom(options.seed ?? DEFAULT_SEED);
+
+  return checked(LocationDetailsGeosResponseSchema, { ...fakeBaseDetails(random, 'geos'), ...overrides });
+}
+
+/**
+ * Generate a fake location search result
+ *
+ * @param overrides - Fields replacing the generated ones
+ * @param options - Fake data options
+ * @returns Search result matching `LocationSearchResponseDataSchema`
+ * @throws ValidationError if the overrides do not match the schema
+ */
+export function fakeSearchResult(
+  overrides: Partial<LocationSearchResult> = {},
+  options: FakeOptions = {}
+): LocationSearchResult {
+  const random = new SeededRandom(options.seed ?? DEFAULT_SEED);
+  const { location_id, name, address_obj } = fakeBaseDetails(
+    random,
+    random.pick(['hotels', 'attractions', 'restaurants'])
+  );
+
+  return checked(LocationSearchResponseDataSchema, { location_id, name, address_obj, ...overrides });
+}
+
+/**
+ * Generate a fake nearby search result
+ *
+ * @param overrides - Fields replacing the generated ones
+ * @param options - Fake data options
+ * @returns Nearby search result matching `LocationNearbySearchResponseDataSchema`
+ * @throws ValidationError if the overrides do not match the schema
+ */
+export function fakeNearbySearchResult(
+  overrides: Partial<LocationNearbySearchResult> = {},
+  options: FakeOptions = {}
+): LocationNearbySearchResult {
+  const random = new SeededRandom(options.seed ?? DEFAULT_SEED);
+  const { location_id, name, address_obj } = fakeBaseDetails(
+    random,
+    random.pick(['hotels', 'attractions', 'restaurants'])
+  );
+
+  return checked(LocationNearbySearchResponseDataSchema, {
+    location_id,
+    name,
+    address_obj,
+    distance: (random.int(1, 500) / 100).toString(),
+    bearing: random.pick(BEARINGS),
+    ...overrides,
+  });
+}
+
+/**
+ * Generate a fake location review
+ *
+ * @param overrides - Fields replacing the generated ones
+ * @param options - Fake data options
+ * @returns Review matching `LocationReviewsDataSchema`
+ * @throws ValidationError if the overrides do not match the schema
+ */
+export function fakeReview(
+  overrides: Partial<LocationReviewsResult> = {},
+  options: FakeOptions = {}
+): LocationReviewsResult {
+  const random = new SeededRandom(options.seed ?? DEFAULT_SEED);
+  const id = String(random.int(100000000, 999999999));
+  const locationId = String(random.int(100000, 9999999));
+  const rating = random.int(1, 5);
+  const publishedDate = random.date();
+  const city = random.pick(CITIES);
+
+  return checked(LocationReviewsDataSchema, {
+    id,
+    lang: 'en',
+    location_id: locationId,
+    published_date: publishedDate,
+    rating: String(rating),
+    helpful_votes: random.int(0, 50),
+    rating_image_url: `https://www.tripadvisor.com/img/cdsi/img2/ratings/traveler/s${rating}.0-66827-5.svg`,
+    url: `https://www.tripadvisor.com/ShowUserReviews-d${locationId}-r${id}.html`,
+    text: random.sample(REVIEW_SENTENCES, 3).join(' '),
+    title: random.pick(REVIEW_TITLES),
+    trip_type: random.pick(TRIP_TYPES),
+    travel_date: publishedDate.slice(0, 7),
+    user: {
+      username: fakeUsername(random),
+      user_location: { id: city.locationId, location: `${city.city}, ${city.country}` },
+      review_count: random.int(1, 300),
+    },
+    ...overrides,
+  });
+}
+
+/**
+ * Generate a fake location photo
+ *
+ * @param overrides - Fields replacing the generated ones
+ * @param options - Fake data options
+ * @returns Photo matching `LocationPhotosDataSchema`
+ * @throws ValidationError if the overrides do not match the schema
+ */
+export function fakePhoto(overrides: Partial<LocationPhotosData> = {}, options: FakeOptions = {}): LocationPhotosData {
+  const random = new SeededRandom(options.seed ?? DEFAULT_SEED);
+  const id = String(random.int(100000000, 999999999));
+  const source = random.pick(PHOTO_SOURCES);
+  const url = `https://media-cdn.tripadvisor.com/media/photo-o/${id}.jpg`;
+
+  return checked(LocationPhotosDataSchema, {
+    id,
+    is_blessed: random.int(0, 3) === 0,
+    album: random.pick(['Hotel & Amenities', 'Dining', 'Views', 'Other']),
+    caption: random.pick(['View from the entrance', 'Evening lights', 'Main hall', '']),
+    published_date: random.date(),
+    images: {
+      thumbnail: { url, width: 50, height: 50 },
+      small: { url, width: 150, height: 150 },
+      medium: { url, width: 250, height: 188 },
+      large: { url, width: 550, height: 413 },
+      original: { url, width: 2000, height: 1500 },
+    },
+    source: { name: source, localized_name: source },
+    user: source === 'Traveler' ? { username: fakeUsername(random) } : undefined,
+    ...overrides,
+  });
+}
+
+/**
+ * Generate the fields shared by all location details responses
+ */
+function fakeBaseDetails(random: SeededRandom, category: TripAdvisorCategory) {
+  const city = random.pick(CITIES);
+  const isGeo = category === 'geos';
+  const locationId = isGeo ? city.locationId : String(random.int(100000, 9999999));
+  const name = isGeo ? city.city : `${random.pick(NAME_PREFIXES)} ${random.pick(NAME_SUFFIXES[category])}`;
+  const street = `${random.int(1, 250)} ${random.pick(STREETS)}`;
+  const postalCode = String(random.int(10000, 99999));
+  const numReviews = random.int(10, 5000);
+  const rating = random.int(6, 10) / 2;
+  const categoryName = isGeo ? 'geographic' : category.slice(0, -1);
+  const webUrl = `https://www.tripadvisor.com/Location-d${locationId}`;
+
+  return {
+    location_id: locationId,
+    name,
+    web_url: webUrl,
+    description: `${name} in ${city.city}.`,
+    address_obj: isGeo
+      ? { city: city.city, state: city.state, country: city.country, address_string: `${city.city}, ${city.country}` }
+      : {
+          street1: street,
+          city: city.city,
+          state: city.state,
+          country: city.country,
+          postalcode: postalCode,
+          address_string: `${street}, ${city.city} ${postalCode} ${city.country}`,
+        },
+    ancestors: isGeo
+      ? [{ level: 'Country', name: city.country, location_id: String(random.int(100000, 999999)) }]
+      : [{ level: 'City', name: city.city, location_id: city.locationId }],
+    latitude: (city.latitude + random.int(-500, 500) / 10000).toFixed(6),
+    longitude: (city.longitude + random.int(-500, 500) / 10000).toFixed(6),
+    timezone: city.timezone,
+    write_review: `https://www.tripadvisor.com/UserReview-d${locationId}`,
+    ...(isGeo
+      ? {}
+      : {
+          ranking_data: {
+            geo_location_id: city.locationId,
+            ranking_string: `#${random.int(1, 200)} of 1,000 ${category} in ${city.city}`,
+            geo_location_name: city.city,
+            ranking_out_of: '1000',
+            ranking: String(random.int(1, 200)),
+          },
+          rating: rating.toFixed(1),
+          rating_image_url: `https://www.tripadvisor.com/img/cdsi/img2/ratings/traveler/${rating.toFixed(1)}-66827-5.svg`,
+          num_reviews: String(numReviews),
+          review_rating_count: fakeRatingCount(numReviews),
+          price_level: random.pick(['$', '$$', '$$ - $$$', '$$$$']),
+        }),
+    photo_count: String(random.int(0, 2000)),
+    see_all_photos: `${webUrl}#photos`,
+    category: { name: categoryName, localized_name: capitalize(categoryName) },
+    subcategory: [{ name: categoryName, localized_name: capitalize(categoryName) }],
+    neighborhood_info: isGeo ? [] : [{ location_id: String(random.int(10000000, 99999999)), name: 'City Center' }],
+    awards: [],
+  };
+}
+
+/**
+ * Generate daily opening hours
+ */
+function fakeHours(random: SeededRandom) {
+  const open = random.pick(['0800', '0900', '1000']);
+  const close = random.pick(['1700', '1800', '2200']);
+  const format = (time: string) => `${time.slice(0, 2)}:${time.slice(2)}`;
+
+  return {
+    periods: DAY_NAMES.map((_name, day) => ({ open: { day, time: open }, close: { day, time: close } })),
+    weekday_text: DAY_NAMES.map(name => `${name}: ${format(open)} - ${format(close)}`),
+  };
+}
+
+/**
+ * Generate trip type counts
+ */
+function fakeTripTypes(random: SeededRandom) {
+  return TRIP_TYPES.map(name => ({
+    name: name.toLowerCase(),
+    localized_name: name,
+    value: String(random.int(0, 500)),
+  }));
+}
+
+/**
+ * Split a review count over the five rating levels, most of them excellent
+ */
+function fakeRatingCount(numReviews: number) {
+  const counts = [0.05, 0.05, 0.1, 0.3].map(share => Math.floor(numReviews * share));
+  const excellent = numReviews - counts.reduce((sum, count) => sum + count, 0);
+
+  return {
+    '1': String(counts[0]),
+    '2': String(counts[1]),
+    '3': String(counts[2]),
+    '4': String(counts[3]),
+    '5': String(excellent),
+  };
+}
+
+/**
+ * Generate a username
+ */
+function fakeUsername(random: SeededRandom): string {
+  return `${random.pick(['happy', 'curious', 'weekend', 'city', 'coastal'])}${random.pick(['traveler', 'explorer', 'foodie', 'walker'])}${random.int(1, 999)}`;
+}
+
+/**
+ * Capitalize the first letter of a word
+ */
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+/**
+ * Check fake data against its schema
+ */
+function checked<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, value: T): T {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new ValidationError(`Invalid fake data: ${result.error}`);
+  }
+  return value;
+}
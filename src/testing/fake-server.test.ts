@@ -0,0 +1,198 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { TripAdvisorClient } from '../client.js';
+import { HttpError, NetworkError, RateLimitError, ServerError, TripAdvisorError } from '../errors.js';
+import { detectLocationDetailsCategory, LocationDetailsCategoryResponseSchemas } from '../types/details.js';
+import { LocationPhotosDataSchema } from '../types/photos.js';
+import { LocationReviewsDataSchema } from '../types/reviews.js';
+import { DEFAULT_FAKE_LOCATIONS } from './dataset.js';
+import { FakeTripAdvisorServer } from './fake-server.js';
+
+describe('FakeTripAdvisorServer', () => {
+  let server: FakeTripAdvisorServer;
+  let client: TripAdvisorClient;
+
+  beforeEach(() => {
+    server = new FakeTripAdvisorServer();
+    client = new TripAdvisorClient({
+      apiKey: 'test-key',
+      fetch: server.fetch,
+      retryPolicy: { maxAttempts: 4, baseDelay: 1, jitter: false },
+    });
+  });
+
+  describe('dataset', () => {
+    it('should match the response schemas', () => {
+      for (const { details, reviews, photos } of DEFAULT_FAKE_LOCATIONS) {
+        const schema = LocationDetailsCategoryResponseSchemas[detectLocationDetailsCategory(details)!];
+
+        expect(schema.strict().safeParse(details).error?.issues).toBeUndefined();
+        reviews.forEach(review => expect(LocationReviewsDataSchema.parse(review)).toEqual(review));
+        photos.forEach(photo => expect(LocationPhotosDataSchema.parse(photo)).toEqual(photo));
+      }
+    });
+  });
+
+  describe('endpoints', () => {
+    it('should search locations by name and category', async () => {
+      await expect(client.locationSearch({ searchQuery: 'eiffel' })).resolves.toEqual([
+        expect.objectContaining({ location_id: '188151', name: 'Eiffel Tower' }),
+      ]);
+      await expect(client.locationSearch({ searchQuery: 'e', category: 'hotels' })).resolves.toEqual([
+        expect.objectContaining({ location_id: '197528' }),
+      ]);
+    });
+
+    it('should reject a search without a query', async () => {
+      await expect(client.locationSearch({ searchQuery: ' ' })).rejects.toThrow('HTTP 400: searchQuery is required');
+    });
+
+    it('should return location details', async () => {
+      const details = await client.locationDetails('197528', { language: 'en' }, 'hotels');
+
+      expect(details.name).toBe('Left Bank Grand Hotel');
+      expect(details.amenities).toContain('Spa');
+    });
+
+    it('should respond with 404 for unknown locations', async () => {
+      const error = await client.locationDetails('1', {}).catch(error => error);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.status).toBe(404);
+    });
+
+    it('should page through reviews', async () => {
+      const reviews = [];
+      for await (const review of client.paginateReviews('188151', { pageSize: 2 })) {
+        reviews.push(review.id);
+      }
+
+      expect(reviews).toEqual(['1001', '1002', '1003']);
+      expect(server.requests.map(request => request.params.offset)).toEqual(['0', '2']);
+    });
+
+    it('should filter photos by source', async () => {
+      const photos = await client.locationPhotos('188151', { source: 'Management' });
+
+      expect(photos.map(photo => photo.id)).toEqual(['2b1c3e']);
+    });
+
+    it('should record received requests', async () => {
+      await client.locationReviews('719291', { limit: 1 });
+
+      expect(server.requests).toEqual([
+        expect.objectContaining({
+          method: 'GET',
+          endpoint: 'reviews',
+          locationId: '719291',
+          params: expect.objectContaining({ key: 'test-key', limit: '1' }),
+        }),
+      ]);
+    });
+
+    it('should serve added locations', async () => {
+      const [location] = DEFAULT_FAKE_LOCATIONS;
+      server.addLocation({ ...location, details: { ...location.details, location_id: '42', name: 'Lyon' } });
+
+      await expect(client.locationDetails('42', {})).resolves.toMatchObject({ name: 'Lyon' });
+    });
+
+    it('should respond with 404 for unknown endpoints', async () => {
+      const response = await server.fetch('https://api.example.com/location/123/unknown');
+
+      expect(response.status).toBe(404);
+      expect(server.requests[0].endpoint).toBeUndefined();
+    });
+
+    it('should reject other API keys when one is configured', async () => {
+      const server = new FakeTripAdvisorServer({ apiKey: 'valid-key' });
+      const client = new TripAdvisorClient({ apiKey: 'other-key', fetch: server.fetch });
+
+      await expect(client.locationDetails('188151', {})).rejects.toMatchObject({ status: 401, isApiError: true });
+    });
+  });
+
+  describe('failures', () => {
+    it('should respond with 429 and Retry-After', async () => {
+      const delays: number[] = [];
+      const client = new TripAdvisorClient({
+        apiKey: 'test-key',
+        fetch: server.fetch,
+        retryPolicy: { maxAttempts: 2, onRetry: (_error, _attempt, delay) => delays.push(delay) },
+      });
+      server.fail({ type: 'status', status: 429, retryAfter: 0.01 }, { endpoint: 'details' });
+
+      await expect(client.locationDetails('188151', {})).resolves.toMatchObject({ name: 'Eiffel Tower' });
+      expect(delays).toEqual([10]);
+    });
+
+    it('should fail a burst of requests', async () => {
+      server.fail({ type: 'status', status: 503 }, { times: 4 });
+
+      await expect(client.locationDetails('188151', {})).rejects.toBeInstanceOf(ServerError);
+      expect(server.requests).toHaveLength(4);
+      await expect(client.locationDetails('188151', {})).resolves.toMatchObject({ name: 'Eiffel Tower' });
+    });
+
+    it('should only fail requests to the given endpoint', async () => {
+      server.fail({ type: 'status', status: 429, body: { Message: 'Too many requests' } }, { endpoint: 'photos' });
+
+      await expect(client.locationReviews('188151', {}, { retries: 0 })).resolves.toHaveLength(3);
+      await expect(client.locationPhotos('188151', {}, { retries: 0 })).rejects.toBeInstanceOf(RateLimitError);
+    });
+
+    it('should time out until the request is aborted', async () => {
+      server.fail({ type: 'timeout' });
+
+      const error = await client
+        .locationDetails('188151', {}, undefined, { timeout: 10, retries: 0 })
+        .catch(error => error);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.isTimeout).toBe(true);
+    });
+
+    it('should reject requests aborted before a timeout', async () => {
+      server.fail({ type: 'timeout' });
+      const controller = new AbortController();
+      controller.abort(new Error('Cancelled'));
+
+      await expect(
+        server.fetch('https://api.example.com/location/search', { signal: controller.signal })
+      ).rejects.toThrow('Cancelled');
+    });
+
+    it('should simulate network failures', async () => {
+      server.fail({ type: 'network' });
+
+      await expect(client.locationDetails('188151', {}, undefined, { retries: 0 })).rejects.toThrow(NetworkError);
+    });
+
+    it('should respond with both API error shapes', async () => {
+      server
+        .fail({ type: 'api_error', message: 'Invalid parameter', code: 400, errorType: 'InvalidParameter' })
+        .fail({ type: 'api_error', shape: 'message', message: 'Not authorized', status: 403 });
+
+      const first = await client.locationDetails('188151', {}, undefined, { retries: 0 }).catch(error => error);
+      const second = await client.locationDetails('188151', {}, undefined, { retries: 0 }).catch(error => error);
+
+      expect(first).toBeInstanceOf(TripAdvisorError);
+      expect(first).toMatchObject({
+        status: 400,
+        type: 'InvalidParameter',
+        body: { error: { message: 'Invalid parameter' } },
+      });
+      expect(second).toMatchObject({ status: 403, body: { Message: 'Not authorized' } });
+    });
+
+    it('should forget requests and failures on reset', async () => {
+      server.fail({ type: 'network' });
+      await server.fetch('https://api.example.com/location/188151/details').catch(() => undefined);
+      server.fail({ type: 'network' });
+
+      server.reset();
+
+      expect(server.requests).toEqual([]);
+      await expect(client.locationDetails('188151', {})).resolves.toMatchObject({ name: 'Eiffel Tower' });
+    });
+  });
+});
@@ -0,0 +1,306 @@
+import { detectLocationDetailsCategory } from '../types/details.js';
+import { DEFAULT_FAKE_LOCATIONS, type FakeLocation } from './dataset.js';
+
+/**
+ * Endpoint implemented by the fake API
+ */
+export type FakeEndpoint = 'search' | 'details' | 'reviews' | 'photos';
+
+/**
+ * Failure the fake API can respond with
+ *
+ * - `status`: an error status, e.g. 429 with `retryAfter` or a 5xx, with an optional body
+ * - `api_error`: an API error body, in the `{ error: { message } }` or `{ Message }` shape
+ * - `timeout`: a response that never arrives, until the request is aborted
+ * - `network`: a connection failure, rejecting like `fetch` does
+ */
+export type FakeFailure =
+  | { type: 'status'; status: number; retryAfter?: number | string; body?: unknown }
+  | {
+      type: 'api_error';
+      shape?: 'error' | 'message';
+      message: string;
+      code?: number;
+      errorType?: string;
+      /** HTTP status of the response (default: 400) */
+      status?: number;
+    }
+  | { type: 'timeout' }
+  | { type: 'network'; message?: string };
+
+/**
+ * Options of a scripted failure
+ */
+export interface FakeFailureOptions {
+  /** Endpoint the failure applies to (default: all endpoints) */
+  endpoint?: FakeEndpoint;
+  /** Number of requests to fail (default: 1) */
+  times?: number;
+}
+
+/**
+ * Request received by the fake API
+ */
+export interface FakeRequest {
+  method: string;
+  url: string;
+  /** Endpoint, or undefined for unknown paths */
+  endpoint?: FakeEndpoint;
+  locationId?: string;
+  /** Query parameters, including `key` */
+  params: Record<string, string>;
+}
+
+/**
+ * Fake API options
+ */
+export interface FakeTripAdvisorServerOptions {
+  /** Locations served (default: `DEFAULT_FAKE_LOCATIONS`) */
+  locations?: readonly FakeLocation[];
+  /** API key to accept; requests with another key get a 401 (default: any key) */
+  apiKey?: string;
+}
+
+/**
+ * Scripted failure waiting for matching requests
+ */
+interface PendingFailure {
+  failure: FakeFailure;
+  endpoint?: FakeEndpoint;
+  remaining: number;
+}
+
+/**
+ * Default number of reviews or photos returned per request
+ */
+const DEFAULT_LIMIT = 5;
+
+/**
+ * Maximum number of search results
+ */
+const MAX_SEARCH_RESULTS = 10;
+
+/**
+ * In-memory fake of the TripAdvisor Content API
+ *
+ * Implements location search, details, reviews and photos over a dataset of locations. Pass
+ * `server.fetch` as the client's `fetch` option, and script failures with `fail()` to test
+ * retries, rate limiting and error handling.
+ *
+ * @example
+ * ```typescript
+ * import { TripAdvisorClient } from 'tripadvisor-client';
+ * import { FakeTripAdvisorServer } from 'tripadvisor-client/testing';
+ *
+ * const server = new FakeTripAdvisorServer();
+ * const client = new TripAdvisorClient({ apiKey: 'test-key', fetch: server.fetch });
+ *
+ * server.fail({ type: 'status', status: 429, retryAfter: 1 }, { endpoint: 'details' });
+ * const details = await client.locationDetails('188151', {}); // retried after 1 second
+ * ```
+ */
+export class FakeTripAdvisorServer {
+  /** Requests received, in order */
+  readonly requests: FakeRequest[] = [];
+
+  private locations = new Map<string, FakeLocation>();
+  private failures: PendingFailure[] = [];
+  private apiKey?: string;
+
+  constructor(options: FakeTripAdvisorServerOptions = {}) {
+    this.apiKey = options.apiKey;
+    (options.locations ?? DEFAULT_FAKE_LOCATIONS).forEach(location => this.addLocation(location));
+  }
+
+  /**
+   * Fetch implementation answering from the fake API
+   */
+  readonly fetch: typeof fetch = async (input, init) => {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+    const request = this.parseRequest(init?.method ?? 'GET', url);
+    this.requests.push(request);
+
+    const failure = this.takeFailure(request.endpoint);
+    if (failure) {
+      return this.respondWithFailure(failure, init?.signal ?? undefined);
+    }
+    return this.respond(request);
+  };
+
+  /**
+   * Add a location to the dataset, replacing any location with the same ID
+   *
+   * @param location - Location details, reviews and photos
+   * @returns The server, for chaining
+   */
+  addLocation(location: FakeLocation): this {
+    this.locations.set(location.details.location_id, structuredClone(location));
+    return this;
+  }
+
+  /**
+   * Fail the next matching requests
+   *
+   * Failures are used in the order they were added, each for `times` requests.
+   *
+   * @param failure - Failure to respond with
+   * @param options - Endpoint and number of requests to fail
+   * @returns The server, for chaining
+   *
+   * @example
+   * ```typescript
+   * server
+   *   .fail({ type: 'status', status: 429, retryAfter: 2 })
+   *   .fail({ type: 'status', status: 503 }, { times: 3 })
+   *   .fail({ type: 'api_error', shape: 'message', message: 'Invalid key', status: 401 }, { endpoint: 'reviews' });
+   * ```
+   */
+  fail(failure: FakeFailure, options: FakeFailureOptions = {}): this {
+    const { endpoint, times = 1 } = options;
+    this.failures.push({ failure, endpoint, remaining: times });
+    return this;
+  }
+
+  /**
+   * Forget received requests and pending failures
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.failures = [];
+  }
+
+  /**
+   * Identify the endpoint of a request
+   */
+  private parseRequest(method: string, url: URL): FakeRequest {
+    const request: FakeRequest = { method, url: url.href, params: Object.fromEntries(url.searchParams) };
+
+    const match = /\/location\/(?:(search)|([^/]+)\/(details|reviews|photos))$/.exec(url.pathname);
+    if (match?.[1]) {
+      request.endpoint = 'search';
+    } else if (match) {
+      request.endpoint = match[3] as FakeEndpoint;
+      request.locationId = decodeURIComponent(match[2]);
+    }
+    return request;
+  }
+
+  /**
+   * Take the first pending failure matching an endpoint
+   */
+  private takeFailure(endpoint?: FakeEndpoint): FakeFailure | undefined {
+    const index = this.failures.findIndex(pending => !pending.endpoint || pending.endpoint === endpoint);
+    if (index === -1) {
+      return undefined;
+    }
+
+    const pending = this.failures[index];
+    if (--pending.remaining <= 0) {
+      this.failures.splice(index, 1);
+    }
+    return pending.failure;
+  }
+
+  /**
+   * Respond with a scripted failure
+   */
+  private respondWithFailure(failure: FakeFailure, signal?: AbortSignal): Promise<Response> {
+    switch (failure.type) {
+      case 'status': {
+        const headers: Record<string, string> = {};
+        if (failure.retryAfter !== undefined) {
+          headers['Retry-After'] = String(failure.retryAfter);
+        }
+        return Promise.resolve(
+          failure.body === undefined
+            ? new Response(null, { status: failure.status, headers })
+            : json(failure.body, failure.status, headers)
+        );
+      }
+      case 'api_error': {
+        const { shape = 'error', message, code, errorType, status = 400 } = failure;
+        const body =
+          shape === 'error'
+            ? { error: { message, type: errorType, code } }
+            : { Message: message, type: errorType, code };
+        return Promise.resolve(json(body, status));
+      }
+      case 'timeout':
+        return new Promise((_resolve, reject) => {
+          if (signal?.aborted) {
+            reject(signal.reason);
+          }
+          signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+        });
+      case 'network':
+        return Promise.reject(new TypeError(failure.message ?? 'fetch failed'));
+    }
+  }
+
+  /**
+   * Answer a request from the dataset
+   */
+  private respond(request: FakeRequest): Response {
+    const { endpoint, locationId, params } = request;
+
+    if (this.apiKey !== undefined && params.key !== this.apiKey) {
+      return json({ Message: 'User is not authorized to access this resource' }, 401);
+    }
+    if (!endpoint) {
+      return json({ error: { message: 'Unknown endpoint', type: 'NotFound', code: 404 } }, 404);
+    }
+    if (endpoint === 'search') {
+      return this.search(params);
+    }
+
+    const location = this.locations.get(locationId!);
+    if (!location) {
+      return json({ error: { message: `Location ${locationId} not found`, type: 'NotFound', code: 404 } }, 404);
+    }
+
+    const offset = Number(params.offset ?? 0);
+    const limit = Number(params.limit ?? DEFAULT_LIMIT);
+    switch (endpoint) {
+      case 'details':
+        return json(location.details);
+      case 'reviews':
+        return json({ data: location.reviews.slice(offset, offset + limit) });
+      case 'photos': {
+        const sources = params.source?.split(',').map(source => source.trim().toLowerCase());
+        const photos = sources
+          ? location.photos.filter(photo => sources.includes(photo.source.name.toLowerCase()))
+          : location.photos;
+        return json({ data: photos.slice(offset, offset + limit) });
+      }
+    }
+  }
+
+  /**
+   * Search locations by name and category
+   */
+  private search(params: Record<string, string>): Response {
+    const query = params.searchQuery?.trim().toLowerCase();
+    if (!query) {
+      return json({ error: { message: 'searchQuery is required', type: 'InvalidParameter', code: 400 } }, 400);
+    }
+
+    const data = [...this.locations.values()]
+      .map(({ details }) => details)
+      .filter(details => details.name.toLowerCase().includes(query))
+      .filter(details => !params.category || detectLocationDetailsCategory(details) === params.category)
+      .slice(0, MAX_SEARCH_RESULTS)
+      .map(({ location_id, name, address_obj }) => ({ location_id, name, address_obj }));
+
+    return json({ data });
+  }
+}
+
+/**
+ * Build a JSON response
+ */
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
@@ -0,0 +1,26 @@
+// Export the fake TripAdvisor API
+export { FakeTripAdvisorServer } from './fake-server.js';
+export type {
+  FakeEndpoint,
+  FakeFailure,
+  FakeFailureOptions,
+  FakeRequest,
+  FakeTripAdvisorServerOptions,
+} from './fake-server.js';
+
+// Export the default dataset
+export { DEFAULT_FAKE_LOCATIONS } from './dataset.js';
+export type { FakeLocation } from './dataset.js';
+
+// Export the fake data factories
+export {
+  fakeAttractionDetails,
+  fakeGeoDetails,
+  fakeHotelDetails,
+  fakeNearbySearchResult,
+  fakePhoto,
+  fakeRestaurantDetails,
+  fakeReview,
+  fakeSearchResult,
+} from './factories.js';
+export type { FakeOptions } from './factories.js';
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { TripAdvisorUserSchema, withCoordinates } from './common.js';
+import { LocationPhotosDataSchema } from './photos.js';
+import { LocationReviewsDataSchema } from './reviews.js';
+
+describe('TripAdvisorUserSchema', () => {
+  it('should accept avatars with only some sizes', () => {
+    const user = {
+      username: 'traveler',
+      avatar: { thumbnail: 'https://example.com/thumbnail.jpg', large: 'https://example.com/large.jpg' },
+    };
+
+    expect(TripAdvisorUserSchema.parse(user)).toEqual(user);
+  });
+
+  it('should require a username', () => {
+    expect(TripAdvisorUserSchema.safeParse({ avatar: {} }).success).toBe(false);
+  });
+
+  it('should type the photo user and require the review user location', () => {
+    const user = { username: 'traveler', user_location: { id: '1', location: 'Paris' } };
+
+    expect(LocationPhotosDataSchema.shape.user.parse({ username: 'traveler' })).toEqual({ username: 'traveler' });
+    expect(LocationPhotosDataSchema.shape.user.safeParse({ name: 'traveler' }).success).toBe(false);
+    expect(LocationReviewsDataSchema.shape.user.parse(user)).toEqual(user);
+    expect(LocationReviewsDataSchema.shape.user.safeParse({ username: 'traveler' }).success).toBe(false);
+  });
+});
+
+describe('withCoordinates', () => {
+  it('should replace latitude and longitude with coordinates', () => {
+    expect(withCoordinates({ name: 'Test', latitude: '48.8584', longitude: '2.2945' })).toEqual({
+      name: 'Test',
+      coordinates: { lat: 48.8584, lng: 2.2945 },
+    });
+  });
+
+  it('should omit coordinates that are missing or not numeric', () => {
+    expect(withCoordinates({ name: 'Test', latitude: '48.8584' })).toEqual({ name: 'Test' });
+    expect(withCoordinates({ name: 'Test', latitude: 'n/a', longitude: '2.2945' })).toEqual({ name: 'Test' });
+  });
+});
@@ -78,6 +78,71 @@ export const PeriodSchema = z.object({
   time: z.string(),
 });
 
+/**
+ * User avatar schema
+ *
+ * Each size is optional, as responses often omit some of them.
+ */
+export const AvatarSchema = z.object({
+  thumbnail: z.string().optional(),
+  small: z.string().optional(),
+  medium: z.string().optional(),
+  large: z.string().optional(),
+  original: z.string().optional(),
+});
+
+/**
+ * TripAdvisor user schema, shared by reviews and photos
+ */
+export const TripAdvisorUserSchema = z.object({
+  username: z.string().describe('The username that appears on the Tripadvisor website for the user'),
+  user_location: z
+    .object({
+      id: z.string(),
+      location: z.string().optional(),
+    })
+    .optional(),
+  review_count: z.number().optional(),
+  reviewer_badge: z
+    .string()
+    .optional()
+    .describe('The Reviewer Badge that appears on the Tripadvisor website for the user'),
+  avatar: AvatarSchema.optional(),
+});
+
+/**
+ * Numeric string schema, normalized into a number (`NaN` when the string is not numeric)
+ */
+export const NumericStringSchema = z.string().transform(value => (value.trim() === '' ? NaN : Number(value)));
+
+/**
+ * Date string schema, normalized into a `Date`
+ */
+export const DateStringSchema = z.string().transform(value => new Date(value));
+
+/**
+ * Geographic coordinates
+ */
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Replace the `latitude`/`longitude` strings of a location with a `coordinates` object
+ *
+ * `coordinates` is omitted when either value is missing or not numeric.
+ */
+export function withCoordinates<T extends { latitude?: string; longitude?: string }>(
+  location: T
+): Omit<T, 'latitude' | 'longitude'> & { coordinates?: Coordinates } {
+  const { latitude, longitude, ...rest } = location;
+  const lat = NumericStringSchema.safeParse(latitude ?? '').data ?? NaN;
+  const lng = NumericStringSchema.safeParse(longitude ?? '').data ?? NaN;
+
+  return Number.isFinite(lat) && Number.isFinite(lng) ? { ...rest, coordinates: { lat, lng } } : rest;
+}
+
 // Export types
 export type TripAdvisorCategory = z.infer<typeof TripAdvisorCategorySchema>;
 export type TripAdvisorError = z.infer<typeof TripAdvisorErrorSchema>;
@@ -86,3 +151,5 @@ export type Name = z.infer<typeof NameSchema>;
 export type AddressObject = z.infer<typeof AddressObjectSchema>;
 export type Ancestor = z.infer<typeof AncestorSchema>;
 export type Period = z.infer<typeof PeriodSchema>;
+export type Avatar = z.infer<typeof AvatarSchema>;
+export type TripAdvisorUser = z.infer<typeof TripAdvisorUserSchema>;
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { parseLeniently } from '../validation.js';
+import {
+  detectLocationDetailsCategory,
+  getLocationDetailsResponseSchema,
+  getNormalizedLocationDetailsResponseSchema,
+} from './details.js';
+
+const baseDetails = {
+  location_id: '123',
+  name: 'Test Location',
+  web_url: 'https://www.tripadvisor.com/Test',
+  address_obj: {
+    city: 'Test City',
+    state: 'Test State',
+    country: 'Test Country',
+  },
+  ancestors: [],
+  latitude: '40.7128',
+  longitude: '-74.0060',
+  timezone: 'America/New_York',
+  subcategory: [],
+  neighborhood_info: [],
+  awards: [],
+};
+
+const hotelDetails = {
+  ...baseDetails,
+  category: { name: 'hotel', localized_name: 'Hotel' },
+  amenities: ['Free WiFi'],
+  parent_brand: 'Test Group',
+  brand: 'Test Hotels',
+  styles: ['Boutique'],
+  trip_types: [],
+};
+
+const restaurantDetails = {
+  ...baseDetails,
+  category: { name: 'restaurant', localized_name: 'Restaurant' },
+  features: ['Reservations'],
+  cuisine: [{ name: 'french', localized_name: 'French' }],
+  trip_types: [],
+};
+
+describe('detectLocationDetailsCategory', () => {
+  it('should map API category names to request categories', () => {
+    expect(detectLocationDetailsCategory(hotelDetails)).toBe('hotels');
+    expect(detectLocationDetailsCategory(restaurantDetails)).toBe('restaurants');
+    expect(detectLocationDetailsCategory({ category: { name: 'attraction' } })).toBe('attractions');
+    expect(detectLocationDetailsCategory({ category: { name: 'geographic' } })).toBe('geos');
+  });
+
+  it('should return undefined for missing or unknown categories', () => {
+    expect(detectLocationDetailsCategory(null)).toBeUndefined();
+    expect(detectLocationDetailsCategory({})).toBeUndefined();
+    expect(detectLocationDetailsCategory({ category: { name: 'vacation_rental' } })).toBeUndefined();
+  });
+});
+
+describe('getLocationDetailsResponseSchema', () => {
+  it('should parse with the schema of the requested category', () => {
+    const result = getLocationDetailsResponseSchema('hotels').parse(hotelDetails);
+    expect(result).toHaveProperty('amenities', ['Free WiFi']);
+  });
+
+  it('should select the schema from the returned category when none is given', () => {
+    const result = getLocationDetailsResponseSchema().parse(hotelDetails);
+    expect(result).toHaveProperty('amenities', ['Free WiFi']);
+  });
+
+  it('should reject a response missing fields of its detected category', () => {
+    const { features: _features, ...withoutFeatures } = restaurantDetails;
+    const result = getLocationDetailsResponseSchema().safeParse(withoutFeatures);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['features']);
+  });
+
+  it('should reject a response whose category does not match the requested one', () => {
+    const result = getLocationDetailsResponseSchema('hotels').safeParse(restaurantDetails);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['category', 'name']);
+    expect(result.error?.issues[0].message).toContain('"hotels"');
+  });
+
+  it('should report unknown categories and fall back to the base schema leniently', () => {
+    const details = { ...baseDetails, category: { name: 'other', localized_name: 'Other' } };
+
+    const result = getLocationDetailsResponseSchema().safeParse(details);
+
+    expect(result.error?.issues).toEqual([
+      expect.objectContaining({ path: ['category', 'name'], message: expect.stringContaining('unknown') }),
+    ]);
+    expect(parseLeniently(getLocationDetailsResponseSchema(), details)).toEqual(details);
+    expect(getLocationDetailsResponseSchema('geos').parse(details)).toEqual(details);
+  });
+});
+
+describe('getNormalizedLocationDetailsResponseSchema', () => {
+  it('should parse numeric strings and coordinates', () => {
+    const result = getNormalizedLocationDetailsResponseSchema('hotels').parse({
+      ...hotelDetails,
+      rating: '4.5',
+      num_reviews: '1200',
+      photo_count: '87',
+      review_rating_count: { '1': '10', '2': '20', '3': '70', '4': '300', '5': '800' },
+      ranking_data: {
+        geo_location_id: '60763',
+        ranking_string: '#3 of 500 hotels in New York City',
+        geo_location_name: 'New York City',
+        ranking_out_of: '500',
+        ranking: '3',
+      },
+    });
+
+    expect(result).toMatchObject({
+      rating: 4.5,
+      num_reviews: 1200,
+      photo_count: 87,
+      review_rating_count: { '1': 10, '5': 800 },
+      ranking_data: { ranking: 3, ranking_out_of: 500, geo_location_name: 'New York City' },
+      coordinates: { lat: 40.7128, lng: -74.006 },
+      amenities: ['Free WiFi'],
+    });
+    expect(result).not.toHaveProperty('latitude');
+    expect(result).not.toHaveProperty('longitude');
+  });
+
+  it('should omit coordinates when they are not available', () => {
+    const result = getNormalizedLocationDetailsResponseSchema().parse({
+      ...restaurantDetails,
+      latitude: '',
+      longitude: '',
+    });
+
+    expect(result).not.toHaveProperty('coordinates');
+    expect(result).toHaveProperty('cuisine');
+  });
+
+  it('should reject a response whose category does not match the requested one', () => {
+    const result = getNormalizedLocationDetailsResponseSchema('hotels').safeParse(restaurantDetails);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['category', 'name']);
+  });
+});
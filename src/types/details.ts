@@ -1,5 +1,16 @@
 import { z } from 'zod';
-import { AddressObjectSchema, AncestorSchema, ArrayStringSchema, NameSchema, PeriodSchema } from './common.js';
+import { parseLeniently } from '../validation.js';
+import {
+  AddressObjectSchema,
+  AncestorSchema,
+  ArrayStringSchema,
+  NameSchema,
+  NumericStringSchema,
+  PeriodSchema,
+  withCoordinates,
+  type TripAdvisorCategory,
+} from './common.js';
+import { NormalizedSubratingsSchema, SubratingsSchema } from './subratings.js';
 
 /**
  * Ranking data schema
@@ -57,13 +68,11 @@ export const LocationDetailsPayloadSchema = z.object({
     .optional()
     .describe(
       'The language in which to return results (e.g. "en" for English or "es" for Spanish) from the list of our Supported Languages.'
-    )
-    .default('en'),
+    ),
   currency: z
     .string()
     .optional()
-    .describe('The currency code to use for request and response (should follow ISO 4217).')
-    .default('USD'),
+    .describe('The currency code to use for request and response (should follow ISO 4217).'),
 });
 
 /**
@@ -118,7 +127,7 @@ export const LocationDetailsBaseResponseSchema = z.object({
     })
     .optional()
     .describe('Count of reviews for this location at each traveler rating level (1,2,3,4,5)'),
-  subratings: z.any().optional(),
+  subratings: SubratingsSchema.optional(),
   photo_count: z.string().optional().describe('The count of photos for this POI published on Tripadvisor'),
   see_all_photos: z
     .string()
@@ -169,7 +178,9 @@ export const LocationDetailsAttractionResponseSchema = LocationDetailsBaseRespon
       periods: z.array(
         z.object({
           open: PeriodSchema.describe('The day and times intervals in which the location is open'),
-          close: PeriodSchema.describe('The day and times intervals in which the location is closed'),
+          close: PeriodSchema.optional().describe(
+            'The day and times intervals in which the location is closed, missing if it does not close'
+          ),
         })
       ),
       weekday_text: ArrayStringSchema,
@@ -197,7 +208,9 @@ export const LocationDetailsRestaurantResponseSchema = LocationDetailsBaseRespon
       periods: z.array(
         z.object({
           open: PeriodSchema.describe('The day and times intervals in which the location is open'),
-          close: PeriodSchema.describe('The day and times intervals in which the location is closed'),
+          close: PeriodSchema.optional().describe(
+            'The day and times intervals in which the location is closed, missing if it does not close'
+          ),
         })
       ),
       weekday_text: ArrayStringSchema,
@@ -224,6 +237,147 @@ export const LocationDetailsResponseSchema = z.union([
   LocationDetailsGeosResponseSchema,
 ]);
 
+/**
+ * Location details response schema for each category
+ */
+export const LocationDetailsCategoryResponseSchemas = {
+  hotels: LocationDetailsHotelResponseSchema,
+  attractions: LocationDetailsAttractionResponseSchema,
+  restaurants: LocationDetailsRestaurantResponseSchema,
+  geos: LocationDetailsGeosResponseSchema,
+} as const;
+
+/**
+ * Mapping from the `category.name` returned by the API to the request category
+ */
+const CATEGORY_NAME_MAP: Record<string, TripAdvisorCategory> = {
+  hotel: 'hotels',
+  attraction: 'attractions',
+  restaurant: 'restaurants',
+  geographic: 'geos',
+  geo: 'geos',
+};
+
+/**
+ * Detect the category of a raw location details response from its `category.name`
+ *
+ * @returns The matching category, or undefined if the name is missing or unknown
+ */
+export function detectLocationDetailsCategory(data: unknown): TripAdvisorCategory | undefined {
+  const category = (data as { category?: { name?: unknown } } | null)?.category;
+  if (typeof category?.name !== 'string') {
+    return undefined;
+  }
+  return CATEGORY_NAME_MAP[category.name.toLowerCase()];
+}
+
+/**
+ * Normalized location details fields, with counts, ratings and rankings as numbers
+ */
+const NormalizedLocationDetailsFields = {
+  ranking_data: RankingDataSchema.extend({
+    ranking_out_of: NumericStringSchema,
+    ranking: NumericStringSchema,
+  }).optional(),
+  rating: NumericStringSchema.optional(),
+  num_reviews: NumericStringSchema.optional(),
+  review_rating_count: z
+    .object({
+      '1': NumericStringSchema,
+      '2': NumericStringSchema,
+      '3': NumericStringSchema,
+      '4': NumericStringSchema,
+      '5': NumericStringSchema,
+    })
+    .optional(),
+  photo_count: NumericStringSchema.optional(),
+  subratings: NormalizedSubratingsSchema.optional(),
+};
+
+/**
+ * Normalized location details response schema for each category
+ *
+ * Numeric strings are parsed into numbers, and `latitude`/`longitude` are replaced with `coordinates`.
+ */
+export const NormalizedLocationDetailsCategoryResponseSchemas = {
+  hotels: LocationDetailsHotelResponseSchema.extend(NormalizedLocationDetailsFields).transform(withCoordinates),
+  attractions: LocationDetailsAttractionResponseSchema.extend(NormalizedLocationDetailsFields).transform(
+    withCoordinates
+  ),
+  restaurants: LocationDetailsRestaurantResponseSchema.extend(NormalizedLocationDetailsFields).transform(
+    withCoordinates
+  ),
+  geos: LocationDetailsGeosResponseSchema.extend(NormalizedLocationDetailsFields).transform(withCoordinates),
+} as const;
+
+/**
+ * Build a location details schema that selects the category schema to parse with
+ */
+function buildLocationDetailsResponseSchema<S extends Record<TripAdvisorCategory, z.ZodTypeAny>>(
+  schemas: S,
+  category?: TripAdvisorCategory
+): z.ZodType<z.output<S[TripAdvisorCategory]>, z.ZodTypeDef, unknown> {
+  // Once an issue is added the parse fails, so the value returned with issues is only used by lenient parsing
+  return z.unknown().transform((data, ctx) => {
+    const detected = detectLocationDetailsCategory(data);
+
+    if (category && detected && detected !== category) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['category', 'name'],
+        message: `Expected a location of category "${category}" but received "${detected}"`,
+      });
+      return parseLeniently(schemas[detected], data);
+    }
+
+    // Without a category to parse with, the category-specific fields would be dropped, so report it
+    if (!category && !detected) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['category', 'name'],
+        message: 'Missing or unknown location category; pass the expected category to parse this location',
+      });
+      return parseLeniently(schemas.geos, data);
+    }
+
+    const schema = schemas[category ?? detected!];
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      result.error.issues.forEach(issue => ctx.addIssue(issue));
+      return parseLeniently(schema, data);
+    }
+    return result.data;
+  });
+}
+
+/**
+ * Build the response schema used to parse location details
+ *
+ * When a category is given, the response must be of that category and is parsed with its schema.
+ * Otherwise the schema is chosen from the returned `category.name`; a missing or unknown name is a validation
+ * issue, and lenient parsing then falls back to the geos schema.
+ *
+ * @param category - Expected location category (optional)
+ */
+export function getLocationDetailsResponseSchema(
+  category?: TripAdvisorCategory
+): z.ZodType<LocationDetailsResponse, z.ZodTypeDef, unknown> {
+  return buildLocationDetailsResponseSchema(LocationDetailsCategoryResponseSchemas, category);
+}
+
+/**
+ * Build the response schema used to parse normalized location details
+ *
+ * Selects the category schema like `getLocationDetailsResponseSchema`.
+ *
+ * @param category - Expected location category (optional)
+ */
+export function getNormalizedLocationDetailsResponseSchema(
+  category?: TripAdvisorCategory
+): z.ZodType<NormalizedLocationDetails, z.ZodTypeDef, unknown> {
+  return buildLocationDetailsResponseSchema(NormalizedLocationDetailsCategoryResponseSchemas, category);
+}
+
 // Export types
 export type LocationDetailsPayload = z.infer<typeof LocationDetailsPayloadSchema>;
 export type LocationDetailsResponse = z.infer<typeof LocationDetailsResponseSchema>;
@@ -231,3 +385,16 @@ export type LocationDetailsHotelResponse = z.infer<typeof LocationDetailsHotelRe
 export type LocationDetailsAttractionResponse = z.infer<typeof LocationDetailsAttractionResponseSchema>;
 export type LocationDetailsRestaurantResponse = z.infer<typeof LocationDetailsRestaurantResponseSchema>;
 export type LocationDetailsGeosResponse = z.infer<typeof LocationDetailsGeosResponseSchema>;
+export type NormalizedLocationDetailsHotel = z.output<typeof NormalizedLocationDetailsCategoryResponseSchemas.hotels>;
+export type NormalizedLocationDetailsAttraction = z.output<
+  typeof NormalizedLocationDetailsCategoryResponseSchemas.attractions
+>;
+export type NormalizedLocationDetailsRestaurant = z.output<
+  typeof NormalizedLocationDetailsCategoryResponseSchemas.restaurants
+>;
+export type NormalizedLocationDetailsGeos = z.output<typeof NormalizedLocationDetailsCategoryResponseSchemas.geos>;
+export type NormalizedLocationDetails =
+  | NormalizedLocationDetailsHotel
+  | NormalizedLocationDetailsAttraction
+  | NormalizedLocationDetailsRestaurant
+  | NormalizedLocationDetailsGeos;
@@ -1,6 +1,8 @@
 // Export all type definitions
 export * from './common.js';
 export * from './details.js';
+export * from './nearby.js';
 export * from './photos.js';
 export * from './reviews.js';
 export * from './search.js';
+export * from './subratings.js';
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { NumericStringSchema, TripAdvisorCategorySchema, TripAdvisorErrorSchema } from './common.js';
+import { LocationSearchResponseDataSchema, NormalizedLocationSearchResponseDataSchema } from './search.js';
+
+/**
+ * Location nearby search request parameters schema
+ */
+export const LocationNearbySearchPayloadSchema = z.object({
+  latLong: z
+    .string()
+    .describe('Latitude/Longitude pair to scope down the search around a specific point - eg. "42.3455,-71.10767"'),
+  category: TripAdvisorCategorySchema.optional().describe(
+    'Filters result set based on property type. Valid options are "hotels", "attractions", "restaurants", and "geos"'
+  ),
+  phone: z
+    .string()
+    .optional()
+    .describe(
+      'Phone number to filter the search results by (this can be in any format with spaces and dashes but without the "+" sign at the beginning)'
+    ),
+  address: z.string().optional().describe('Address to filter the search results by'),
+  radius: z
+    .number()
+    .min(0)
+    .optional()
+    .describe('Length of the radius from the provided latitude/longitude pair to filter results.'),
+  radiusUnit: z
+    .string()
+    .optional()
+    .describe('Unit for length of the radius. Valid options are "km", "mi", "m" (km=kilometers, mi=miles, m=meters)'),
+  language: z
+    .string()
+    .optional()
+    .describe(
+      "The language in which to return results (e.g. 'en' for English or 'es' for Spanish) from the list of our Supported Languages."
+    ),
+});
+
+/**
+ * Location nearby search result data schema
+ *
+ * Same shape as a search result, except that `distance` and `bearing` are always present.
+ */
+export const LocationNearbySearchResponseDataSchema = LocationSearchResponseDataSchema.extend({
+  distance: LocationSearchResponseDataSchema.shape.distance.unwrap(),
+  bearing: LocationSearchResponseDataSchema.shape.bearing.unwrap(),
+});
+
+/**
+ * Location nearby search response schema
+ */
+export const LocationNearbySearchResponseSchema = z.union([
+  z.object({ data: LocationNearbySearchResponseDataSchema.array() }),
+  TripAdvisorErrorSchema,
+]);
+
+/**
+ * Normalized location nearby search result data schema, with `distance` as a number
+ */
+export const NormalizedLocationNearbySearchResponseDataSchema = NormalizedLocationSearchResponseDataSchema.extend({
+  distance: NumericStringSchema,
+  bearing: LocationNearbySearchResponseDataSchema.shape.bearing,
+});
+
+/**
+ * Normalized location nearby search response schema
+ */
+export const NormalizedLocationNearbySearchResponseSchema = z.union([
+  z.object({ data: NormalizedLocationNearbySearchResponseDataSchema.array() }),
+  TripAdvisorErrorSchema,
+]);
+
+// Export types
+export type LocationNearbySearchPayload = z.infer<typeof LocationNearbySearchPayloadSchema>;
+export type LocationNearbySearchResult = z.infer<typeof LocationNearbySearchResponseDataSchema>;
+export type NormalizedLocationNearbySearchResult = z.infer<typeof NormalizedLocationNearbySearchResponseDataSchema>;
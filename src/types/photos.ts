@@ -1,5 +1,31 @@
 import { z } from 'zod';
-import { NameSchema, TripAdvisorErrorSchema, TripadvisorImageSchema } from './common.js';
+import {
+  DateStringSchema,
+  NameSchema,
+  TripAdvisorErrorSchema,
+  TripadvisorImageSchema,
+  TripAdvisorUserSchema,
+} from './common.js';
+
+/**
+ * Location photos request parameters schema
+ */
+export const LocationPhotosPayloadSchema = z.object({
+  language: z
+    .string()
+    .optional()
+    .describe(
+      'The language in which to return results (e.g. "en" for English or "es" for Spanish) from the list of our Supported Languages.'
+    ),
+  limit: z.number().optional().describe('The number of photos to return'),
+  offset: z.number().optional().describe('The offset of the photos to return'),
+  source: z
+    .string()
+    .optional()
+    .describe(
+      'A comma-separated list of allowed photo sources. Valid options are "Expert", "Management" and "Traveler". If not specified, photos from all sources are returned.'
+    ),
+});
 
 /**
  * Location photo image schema
@@ -27,7 +53,7 @@ export const LocationPhotosDataSchema = z.object({
   published_date: z.string().describe('Date when this photo was published to Tripadvisor'),
   images: LocationPhotosImageSchema,
   source: NameSchema,
-  user: z.any(),
+  user: TripAdvisorUserSchema.optional().describe('The user who posted the photo'),
 });
 
 /**
@@ -38,7 +64,24 @@ export const LocationPhotosResponseSchema = z.union([
   TripAdvisorErrorSchema,
 ]);
 
+/**
+ * Normalized location photo data schema, with `published_date` as a `Date`
+ */
+export const NormalizedLocationPhotosDataSchema = LocationPhotosDataSchema.extend({
+  published_date: DateStringSchema,
+});
+
+/**
+ * Normalized location photo response schema
+ */
+export const NormalizedLocationPhotosResponseSchema = z.union([
+  z.object({ data: NormalizedLocationPhotosDataSchema.array() }),
+  TripAdvisorErrorSchema,
+]);
+
 // Export types
+export type LocationPhotosPayload = z.infer<typeof LocationPhotosPayloadSchema>;
 export type LocationPhotosResponse = z.infer<typeof LocationPhotosResponseSchema>;
 export type LocationPhotosData = z.infer<typeof LocationPhotosDataSchema>;
 export type LocationPhotosImage = z.infer<typeof LocationPhotosImageSchema>;
+export type NormalizedLocationPhotosData = z.infer<typeof NormalizedLocationPhotosDataSchema>;
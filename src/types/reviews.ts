@@ -1,5 +1,6 @@
 import { z } from 'zod';
-import { TripAdvisorErrorSchema } from './common.js';
+import { DateStringSchema, NumericStringSchema, TripAdvisorErrorSchema, TripAdvisorUserSchema } from './common.js';
+import { NormalizedSubratingsSchema, SubratingsSchema } from './subratings.js';
 
 /**
  * TripAdvisor review schema
@@ -12,31 +13,6 @@ export const TripAdvisorReviewSchema = z.object({
   published_date: z.string().describe('The date the review was published to Tripadvisor.'),
 });
 
-/**
- * TripAdvisor user schema
- */
-export const TripAdvisorUserSchema = z.object({
-  username: z.string().describe('The username that appears on the Tripadvisor website for the user'),
-  user_location: z.object({
-    id: z.string(),
-    location: z.string().optional(),
-  }),
-  review_count: z.number().optional(),
-  reviewer_badge: z
-    .string()
-    .optional()
-    .describe('The Reviewer Badge that appears on the Tripadvisor website for the user'),
-  avatar: z
-    .object({
-      thumbnail: z.string(),
-      small: z.string(),
-      medium: z.string(),
-      large: z.string(),
-      original: z.string(),
-    })
-    .optional(),
-});
-
 /**
  * Location reviews request parameters schema
  */
@@ -75,8 +51,8 @@ export const LocationReviewsDataSchema = TripAdvisorReviewSchema.extend({
       'True or false depending on whether this is a machine-translated review. (Outputs only if partner configured for inclusion of machine-translated reviews)'
     )
     .optional(),
-  user: TripAdvisorUserSchema,
-  subratings: z.any().optional(),
+  user: TripAdvisorUserSchema.required({ user_location: true }),
+  subratings: SubratingsSchema.optional(),
 });
 
 /**
@@ -87,8 +63,29 @@ export const LocationReviewsResponseSchema = z.union([
   TripAdvisorErrorSchema,
 ]);
 
+/**
+ * Normalized location reviews data schema, with `rating` as a number and publication dates as `Date`s
+ */
+export const NormalizedLocationReviewsDataSchema = LocationReviewsDataSchema.extend({
+  rating: NumericStringSchema,
+  published_date: DateStringSchema,
+  subratings: NormalizedSubratingsSchema.optional(),
+  owner_response: LocationReviewsDataSchema.shape.owner_response
+    .unwrap()
+    .extend({ published_date: DateStringSchema })
+    .optional(),
+});
+
+/**
+ * Normalized location reviews response schema
+ */
+export const NormalizedLocationReviewsResponseSchema = z.union([
+  z.object({ data: NormalizedLocationReviewsDataSchema.array() }),
+  TripAdvisorErrorSchema,
+]);
+
 // Export types
 export type LocationReviewsPayload = z.infer<typeof LocationReviewsPayloadSchema>;
 export type LocationReviewsResult = z.infer<typeof LocationReviewsDataSchema>;
+export type NormalizedLocationReviewsResult = z.infer<typeof NormalizedLocationReviewsDataSchema>;
 export type TripAdvisorReview = z.infer<typeof TripAdvisorReviewSchema>;
-export type TripAdvisorUser = z.infer<typeof TripAdvisorUserSchema>;
@@ -1,5 +1,10 @@
 import { z } from 'zod';
-import { AddressObjectSchema, TripAdvisorCategorySchema, TripAdvisorErrorSchema } from './common.js';
+import {
+  AddressObjectSchema,
+  NumericStringSchema,
+  TripAdvisorCategorySchema,
+  TripAdvisorErrorSchema,
+} from './common.js';
 
 /**
  * Location search request parameters schema
@@ -34,8 +39,7 @@ export const LocationSearchPayloadSchema = z.object({
     .optional()
     .describe(
       "The language in which to return results (e.g. 'en' for English or 'es' for Spanish) from the list of our Supported Languages."
-    )
-    .default('en'),
+    ),
 });
 
 /**
@@ -64,6 +68,22 @@ export const LocationSearchResponseSchema = z.union([
   TripAdvisorErrorSchema,
 ]);
 
+/**
+ * Normalized location search result data schema, with `distance` as a number
+ */
+export const NormalizedLocationSearchResponseDataSchema = LocationSearchResponseDataSchema.extend({
+  distance: NumericStringSchema.optional(),
+});
+
+/**
+ * Normalized location search response schema
+ */
+export const NormalizedLocationSearchResponseSchema = z.union([
+  z.object({ data: NormalizedLocationSearchResponseDataSchema.array() }),
+  TripAdvisorErrorSchema,
+]);
+
 // Export types
 export type LocationSearchPayload = z.infer<typeof LocationSearchPayloadSchema>;
 export type LocationSearchResult = z.infer<typeof LocationSearchResponseDataSchema>;
+export type NormalizedLocationSearchResult = z.infer<typeof NormalizedLocationSearchResponseDataSchema>;
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { getSubratingValues, NormalizedSubratingsSchema, SubratingsSchema } from './subratings.js';
+
+const subratings = {
+  '0': {
+    name: 'rate_location',
+    localized_name: 'Location',
+    rating_image_url: 'https://www.tripadvisor.com/img/cdsi/img2/ratings/traveler/s5.0-MCID-5.svg',
+    value: '5.0',
+  },
+  '1': { name: 'rate_sleep', localized_name: 'Sleep Quality', value: '4.5' },
+  '2': { name: 'rate_room', localized_name: 'Rooms', value: 4 },
+  '3': { name: 'rate_cleanliness', localized_name: 'Cleanliness', value: '4.5' },
+  '4': { name: 'rate_service', localized_name: 'Service', value: '4.0' },
+  '5': { name: 'rate_value', localized_name: 'Value', value: '3.5' },
+};
+
+describe('SubratingsSchema', () => {
+  it('should parse the subrating map', () => {
+    expect(SubratingsSchema.parse(subratings)).toEqual(subratings);
+  });
+
+  it('should reject subratings without a value', () => {
+    expect(SubratingsSchema.safeParse({ '0': { name: 'rate_value', localized_name: 'Value' } }).success).toBe(false);
+  });
+
+  it('should normalize values into numbers', () => {
+    const result = NormalizedSubratingsSchema.parse(subratings);
+
+    expect(result['0'].value).toBe(5);
+    expect(result['2'].value).toBe(4);
+  });
+});
+
+describe('getSubratingValues', () => {
+  it('should map subratings to typed keys', () => {
+    expect(getSubratingValues(subratings)).toEqual({
+      location: 5,
+      sleep_quality: 4.5,
+      rooms: 4,
+      cleanliness: 4.5,
+      service: 4,
+      value: 3.5,
+    });
+  });
+
+  it('should skip unknown names and non-numeric values', () => {
+    expect(
+      getSubratingValues({
+        '0': { name: 'rate_noise', localized_name: 'Noise', value: '4.0' },
+        '1': { name: 'rate_service', localized_name: 'Service', value: '' },
+        '2': { name: 'rate_value', localized_name: 'Value', value: 'n/a' },
+      })
+    ).toEqual({});
+  });
+
+  it('should accept missing subratings', () => {
+    expect(getSubratingValues(undefined)).toEqual({});
+  });
+});
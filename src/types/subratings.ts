@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { NumericStringSchema } from './common.js';
+
+/**
+ * Subrating schema
+ */
+export const SubratingSchema = z.object({
+  name: z.string().describe('The subrating name, e.g. "rate_cleanliness"'),
+  localized_name: z.string().describe('The localized subrating name, e.g. "Cleanliness"'),
+  rating_image_url: z.string().optional().describe('The URL to the bubble rating image for this subrating'),
+  value: z.union([z.string(), z.number()]).describe('The subrating value, from 1 to 5'),
+});
+
+/**
+ * Subratings schema, keyed by position (`"0"`, `"1"`, ...)
+ */
+export const SubratingsSchema = z
+  .record(z.string(), SubratingSchema)
+  .describe('Ratings of individual aspects of the location, such as cleanliness or service');
+
+/**
+ * Normalized subratings schema, with values as numbers
+ */
+export const NormalizedSubratingsSchema = z.record(
+  z.string(),
+  SubratingSchema.extend({
+    value: z.union([NumericStringSchema, z.number()]),
+  })
+);
+
+/**
+ * Subrating keys
+ */
+export type SubratingKey = 'cleanliness' | 'service' | 'value' | 'location' | 'sleep_quality' | 'rooms';
+
+/**
+ * Mapping from the subrating `name` returned by the API to the subrating key
+ */
+const SUBRATING_NAME_MAP: Record<string, SubratingKey> = {
+  rate_cleanliness: 'cleanliness',
+  rate_service: 'service',
+  rate_value: 'value',
+  rate_location: 'location',
+  rate_sleep: 'sleep_quality',
+  rate_room: 'rooms',
+};
+
+/**
+ * Get the subrating values by key
+ *
+ * Subratings with an unknown name or a non-numeric value are left out.
+ *
+ * @example
+ * ```typescript
+ * const details = await client.locationDetails('12345', {}, 'hotels');
+ * const { cleanliness, service } = getSubratingValues(details.subratings);
+ * ```
+ *
+ * @param subratings - Subratings of a location or review, raw or normalized
+ */
+export function getSubratingValues(
+  subratings: Subratings | NormalizedSubratings | undefined
+): Partial<Record<SubratingKey, number>> {
+  const values: Partial<Record<SubratingKey, number>> = {};
+
+  for (const subrating of Object.values(subratings ?? {})) {
+    const key = SUBRATING_NAME_MAP[subrating.name];
+    const value = Number(subrating.value);
+    if (key && subrating.value !== '' && !Number.isNaN(value)) {
+      values[key] = value;
+    }
+  }
+
+  return values;
+}
+
+// Export types
+export type Subrating = z.infer<typeof SubratingSchema>;
+export type Subratings = z.infer<typeof SubratingsSchema>;
+export type NormalizedSubratings = z.infer<typeof NormalizedSubratingsSchema>;
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { fakeHotelDetails } from './testing/factories.js';
+import { getLocationDetailsResponseSchema, getNormalizedLocationDetailsResponseSchema } from './types/details.js';
+import { NormalizedLocationNearbySearchResponseSchema } from './types/nearby.js';
+import { LocationReviewsResponseSchema, NormalizedLocationReviewsResponseSchema } from './types/reviews.js';
+import { getEndpointLocationId, parseLeniently } from './validation.js';
+
+const review = {
+  id: 'review-1',
+  lang: 'en',
+  text: 'Great place!',
+  title: 'Amazing Experience',
+  published_date: '2023-01-01T10:00:00Z',
+  location_id: '123',
+  rating: '5',
+  helpful_votes: 10,
+  rating_image_url: 'http://example.com/rating.png',
+  url: 'http://example.com/review',
+  trip_type: 'Couples',
+  travel_date: '2023-01',
+  user: { username: 'testuser', user_location: { id: '1' } },
+};
+
+describe('parseLeniently', () => {
+  it('should return parsed data when it matches the schema', () => {
+    const schema = z.object({ name: z.string() });
+
+    expect(parseLeniently(schema, { name: 'Test', extra: true })).toEqual({ name: 'Test' });
+  });
+
+  it('should leave out missing fields and keep mismatching values', () => {
+    const schema = z.object({ name: z.string(), brand: z.string(), count: z.number(), tags: z.array(z.string()) });
+
+    expect(parseLeniently(schema, { name: 'Test', count: '3', tags: ['a', 1] })).toEqual({
+      name: 'Test',
+      count: '3',
+      tags: ['a', 1],
+    });
+  });
+
+  it('should keep the rest of a list when one item is invalid', () => {
+    const { trip_type: _tripType, ...withoutTripType } = review;
+
+    const result = parseLeniently(LocationReviewsResponseSchema, { data: [review, withoutTripType] });
+
+    expect(result).toEqual({ data: [review, withoutTripType] });
+  });
+
+  it('should apply transforms to the valid parts', () => {
+    const { published_date: _publishedDate, ...withoutDate } = review;
+
+    const result = parseLeniently(NormalizedLocationReviewsResponseSchema, { data: [withoutDate] });
+
+    expect(result).toEqual({ data: [{ ...withoutDate, rating: 5 }] });
+  });
+
+  it('should parse location details of the detected category', () => {
+    const hotel = {
+      location_id: '123',
+      name: 'Independent Hotel',
+      web_url: 'https://www.tripadvisor.com/Test',
+      address_obj: { city: 'City', state: 'State', country: 'Country' },
+      ancestors: [],
+      latitude: '40.7128',
+      longitude: '-74.0060',
+      timezone: 'America/New_York',
+      category: { name: 'hotel', localized_name: 'Hotel' },
+      subcategory: [],
+      amenities: ['Free WiFi'],
+      brand: 'Independent',
+      styles: [],
+      trip_types: [],
+    };
+
+    expect(parseLeniently(getLocationDetailsResponseSchema('hotels'), hotel)).toEqual(hotel);
+    expect(parseLeniently(getLocationDetailsResponseSchema('restaurants'), hotel)).toEqual(hotel);
+  });
+
+  it('should not transform values that do not match the input of a transform', () => {
+    const hotel = { ...fakeHotelDetails(), rating: 4.5, latitude: 48.85 };
+    const nearby = { location_id: '1', name: 'Test', distance: 0.4, bearing: 'north', address_obj: {} };
+
+    expect(parseLeniently(getNormalizedLocationDetailsResponseSchema('hotels'), hotel)).toMatchObject({
+      rating: 4.5,
+      latitude: 48.85,
+      longitude: hotel.longitude,
+      num_reviews: Number(hotel.num_reviews),
+    });
+    expect(parseLeniently(NormalizedLocationNearbySearchResponseSchema, { data: [nearby] })).toEqual({
+      data: [nearby],
+    });
+  });
+
+  it('should handle optional, nullable and default values', () => {
+    const schema = z.object({
+      nested: z.object({ id: z.string() }).optional(),
+      nullable: z.object({ id: z.string() }).nullable(),
+      language: z.string().default('en'),
+      prefixed: z.preprocess(value => `#${value}`, z.string().min(3)),
+    });
+
+    expect(parseLeniently(schema, { nested: { id: 1 }, nullable: null, prefixed: 1 })).toEqual({
+      nested: { id: 1 },
+      nullable: null,
+      language: 'en',
+      prefixed: '#1',
+    });
+  });
+
+  it('should keep unknown keys of passthrough objects', () => {
+    const schema = z.object({ id: z.string() }).passthrough();
+
+    expect(parseLeniently(schema, { id: 1, extra: true })).toEqual({ id: 1, extra: true });
+  });
+});
+
+describe('getEndpointLocationId', () => {
+  it('should extract the location ID of location endpoints', () => {
+    expect(getEndpointLocationId('/location/123/details')).toBe('123');
+    expect(getEndpointLocationId('/location/search')).toBeUndefined();
+  });
+});
@@ -0,0 +1,133 @@
+import { z } from 'zod';
+
+/**
+ * Response validation mode
+ *
+ * - `strict`: throw a `ValidationError` when a response does not match its schema
+ * - `lenient`: report the issues through `onValidationIssue` and return best-effort data
+ * - `off`: return responses as received, without validation or normalization
+ */
+export type ValidationMode = 'strict' | 'lenient' | 'off';
+
+/**
+ * Validation issues found in a response
+ */
+export interface ValidationReport {
+  /** Endpoint path, e.g. `/location/123/details` */
+  endpoint: string;
+  /** Location ID of the request, if the endpoint has one */
+  locationId?: string;
+  /** Schema issues, with the path of each mismatching field */
+  issues: z.ZodIssue[];
+}
+
+/**
+ * Extract the location ID from an endpoint path
+ */
+export function getEndpointLocationId(endpoint: string): string | undefined {
+  return /^\/location\/([^/]+)\//.exec(endpoint)?.[1];
+}
+
+/**
+ * Parse data with a schema, keeping whatever matches it
+ *
+ * Fields that do not match are kept as received, and missing required fields are left out.
+ * Transforms are only applied when the best-effort value of their input matches the input schema.
+ *
+ * @returns The parsed data, or a best-effort value if the data does not match the schema
+ */
+export function parseLeniently<T extends z.ZodTypeAny>(schema: T, data: unknown): z.output<T> {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return result.data;
+  }
+
+  if (schema instanceof z.ZodObject && isPlainObject(data)) {
+    const shape: z.ZodRawShape = schema.shape;
+    const output: Record<string, unknown> = schema._def.unknownKeys === 'passthrough' ? { ...data } : {};
+
+    for (const [key, fieldSchema] of Object.entries(shape)) {
+      const value = parseLeniently(fieldSchema, data[key]);
+      if (value !== undefined) {
+        output[key] = value;
+      }
+    }
+    return output;
+  }
+
+  if (schema instanceof z.ZodArray && Array.isArray(data)) {
+    return data.map(item => parseLeniently(schema.element, item));
+  }
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return data === undefined || data === null ? data : parseLeniently(schema.unwrap(), data);
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return parseLeniently(schema.removeDefault(), data === undefined ? schema._def.defaultValue() : data);
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    return parseLeniently(selectUnionOption(schema.options, data), data);
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    const effect = schema._def.effect;
+    const ctx: z.RefinementCtx = { addIssue: () => undefined, path: [] };
+
+    if (effect.type === 'preprocess') {
+      return parseLeniently(schema.innerType(), effect.transform(data, ctx));
+    }
+    // Only values matching the input schema are transformed; others, and missing values, are left as they are
+    const value = parseLeniently(schema.innerType(), data);
+    return effect.type === 'transform' && value !== undefined && schema.innerType().safeParse(value).success
+      ? effect.transform(value, ctx)
+      : value;
+  }
+
+  return data;
+}
+
+/**
+ * Get the issues of data that does not match a schema
+ *
+ * A union reports a single issue without field paths, so the issues of its closest option are returned instead.
+ */
+export function getSchemaIssues(schema: z.ZodTypeAny, data: unknown): z.ZodIssue[] {
+  if (schema instanceof z.ZodUnion) {
+    return getSchemaIssues(selectUnionOption(schema.options, data), data);
+  }
+  return schema.safeParse(data).error?.issues ?? [];
+}
+
+/**
+ * Select the union option closest to the data, i.e. the one with the most of its object keys present
+ *
+ * Ties go to the first option.
+ */
+export function selectUnionOption(options: readonly z.ZodTypeAny[], data: unknown): z.ZodTypeAny {
+  return options.reduce((best, option) => (matchScore(option, data) > matchScore(best, data) ? option : best));
+}
+
+/**
+ * Count the object keys of a schema that are present in the data, to pick the closest union option
+ */
+function matchScore(schema: z.ZodTypeAny, data: unknown): number {
+  if (schema instanceof z.ZodObject) {
+    return isPlainObject(data) ? Object.keys(schema.shape).filter(key => key in data).length : 0;
+  }
+  if (schema instanceof z.ZodUnion) {
+    return Math.max(...(schema.options as z.ZodTypeAny[]).map(option => matchScore(option, data)));
+  }
+  if (schema instanceof z.ZodEffects) {
+    return matchScore(schema.innerType(), data);
+  }
+  return 0;
+}
+
+/**
+ * Determine if a value is a plain object
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,13 +1,13 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/testing/index.ts'],
   format: ['esm'],
   dts: true,
   clean: true,
   sourcemap: true,
   minify: false,
-  splitting: false,
+  splitting: true,
   treeshake: true,
   external: ['zod'],
   esbuildOptions(options) {